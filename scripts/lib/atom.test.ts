@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  FEED_LIMIT,
+  buildFeed,
+  mergeEntries,
+  readFeedEntries,
+  type AtomEntry,
+} from './atom'
+
+const entry = (id: string, updated: string): AtomEntry => ({
+  id: `https://example.com/${id}`,
+  title: id,
+  link: `https://example.com/${id}`,
+  updated,
+})
+
+const feed = (entries: AtomEntry[]) =>
+  buildFeed(
+    { id: 'https://example.com/feed', title: 'Feed', author: 'me', entries },
+    new Date('2025-01-10T12:00:00.000Z'),
+  )
+
+describe('buildFeed', () => {
+  test('reads back what it wrote, markup in text included', () => {
+    const entries: AtomEntry[] = [
+      {
+        id: 'https://t.me/channel/12#1',
+        title: 'Tom & Jerry <live>',
+        link: 'https://t.me/channel/12?a=1&b="2"',
+        updated: '2025-01-10T12:00:00.000Z',
+        summary: 'Rated 9/10',
+        enclosure: 'https://media.trakt.tv/poster.jpg.webp',
+      },
+      entry('plain', '2025-01-09T12:00:00.000Z'),
+    ]
+    const xml = feed(entries)
+
+    expect(xml).toContain('<title>Tom &amp; Jerry &lt;live&gt;</title>')
+    expect(xml).toContain('type="image/webp"')
+    expect(readFeedEntries(xml)).toEqual(entries)
+  })
+
+  test('dates the feed by its newest entry, or now when empty', () => {
+    expect(feed([entry('a', '2025-01-09T00:00:00.000Z')])).toContain(
+      '<updated>2025-01-09T00:00:00.000Z</updated>\n  <author>',
+    )
+    expect(feed([])).toContain('<updated>2025-01-10T12:00:00.000Z</updated>')
+  })
+})
+
+describe('readFeedEntries', () => {
+  test('no feed or a foreign one reads as no entries', () => {
+    expect(readFeedEntries('')).toEqual([])
+    expect(readFeedEntries('<entry><title>x</title></entry>')).toEqual([])
+  })
+})
+
+describe('mergeEntries', () => {
+  test('newest first, the fresh copy of an id winning', () => {
+    const merged = mergeEntries(
+      [entry('a', '2025-01-01'), entry('b', '2025-01-02')],
+      [{ ...entry('a', '2025-01-03'), title: 'a, again' }],
+    )
+    expect(merged.map((e) => e.title)).toEqual(['a, again', 'b'])
+  })
+
+  test(`keeps the newest ${FEED_LIMIT}`, () => {
+    const previous = Array.from({ length: FEED_LIMIT }, (_, i) =>
+      entry(`old-${i}`, `2024-01-01T00:00:${String(i).padStart(2, '0')}Z`),
+    )
+    const merged = mergeEntries(previous, [entry('new', '2025-01-01')])
+    expect(merged).toHaveLength(FEED_LIMIT)
+    expect(merged[0].title).toBe('new')
+    expect(merged.some((e) => e.title === 'old-0')).toBe(false)
+  })
+})
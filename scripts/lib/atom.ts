@@ -0,0 +1,132 @@
+/**
+ * Atom (RFC 4287) output for the follow-along feeds. Entries come from the
+ * diff between the stored payload and the new one, so a run only knows what
+ * it added: everything older is read back from the feed it published last
+ * time. Only the markup buildFeed writes is read back, which keeps the
+ * reader a handful of patterns instead of an XML parser.
+ */
+
+// A reader polls daily at best; older entries have long been seen
+export const FEED_LIMIT = 50
+
+export interface AtomEntry {
+  /** An IRI, stable across runs: readers dedupe on it */
+  id: string
+  title: string
+  /** The page the entry is about */
+  link: string
+  /** ISO timestamp */
+  updated: string
+  summary?: string
+  /** An image URL, shown by readers that render enclosures */
+  enclosure?: string
+}
+
+export interface AtomFeed {
+  id: string
+  title: string
+  author: string
+  entries: AtomEntry[]
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+
+/** Trakt serves webp posters, the release JPEGs; anything else is a guess */
+function imageType(url: string): string {
+  const extension = new URL(url).pathname.split('.').pop()?.toLowerCase()
+  switch (extension) {
+    case 'webp':
+      return 'image/webp'
+    case 'png':
+      return 'image/png'
+    default:
+      return 'image/jpeg'
+  }
+}
+
+/** Newest first, one per id, the fresh copy winning, at most FEED_LIMIT */
+export function mergeEntries(
+  previous: AtomEntry[],
+  fresh: AtomEntry[],
+): AtomEntry[] {
+  const byId = new Map<string, AtomEntry>()
+  for (const entry of [...previous, ...fresh]) byId.set(entry.id, entry)
+  return [...byId.values()]
+    .sort((a, b) => b.updated.localeCompare(a.updated))
+    .slice(0, FEED_LIMIT)
+}
+
+/** The whole document; updated is the newest entry's, or now when empty */
+export function buildFeed(feed: AtomFeed, now: Date): string {
+  const updated = feed.entries[0]?.updated ?? now.toISOString()
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feed.id)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <updated>${updated}</updated>`,
+    `  <author><name>${escapeXml(feed.author)}</name></author>`,
+    ...feed.entries.flatMap((entry) => [
+      '  <entry>',
+      `    <id>${escapeXml(entry.id)}</id>`,
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <link rel="alternate" href="${escapeXml(entry.link)}"/>`,
+      `    <updated>${entry.updated}</updated>`,
+      ...(entry.summary
+        ? [`    <summary>${escapeXml(entry.summary)}</summary>`]
+        : []),
+      ...(entry.enclosure
+        ? [
+            `    <link rel="enclosure" type="${imageType(entry.enclosure)}" href="${escapeXml(entry.enclosure)}"/>`,
+          ]
+        : []),
+      '  </entry>',
+    ]),
+    '</feed>',
+  ]
+  return `${lines.join('\n')}\n`
+}
+
+const ENTRY = /<entry>([\s\S]*?)<\/entry>/g
+
+const element = (body: string, name: string) =>
+  body.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`))?.[1]
+
+const linkHref = (body: string, rel: string) =>
+  body.match(new RegExp(`<link rel="${rel}"[^>]* href="([^"]*)"/>`))?.[1]
+
+/** Entries of a feed buildFeed wrote; anything it cannot read is dropped */
+export function readFeedEntries(xml: string): AtomEntry[] {
+  return [...xml.matchAll(ENTRY)].flatMap(([, body]): AtomEntry[] => {
+    const id = element(body, 'id')
+    const title = element(body, 'title')
+    const link = linkHref(body, 'alternate')
+    const updated = element(body, 'updated')
+    if (!id || !title || !link || !updated) return []
+
+    const summary = element(body, 'summary')
+    const enclosure = linkHref(body, 'enclosure')
+    return [
+      {
+        id: unescapeXml(id),
+        title: unescapeXml(title),
+        link: unescapeXml(link),
+        updated,
+        ...(summary && { summary: unescapeXml(summary) }),
+        ...(enclosure && { enclosure: unescapeXml(enclosure) }),
+      },
+    ]
+  })
+}
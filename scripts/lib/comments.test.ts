@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  collectComments,
+  commentExcerpt,
+  toWatchlogComment,
+  type TraktComment,
+  type TraktCommentItem,
+} from './comments'
+import type { TraktShow } from './watchlog'
+
+const comment = (
+  id: number,
+  text: string,
+  overrides: Partial<TraktComment> = {},
+): TraktComment => ({
+  id,
+  comment: text,
+  spoiler: false,
+  review: false,
+  created_at: `2025-01-${String(id).padStart(2, '0')}T10:00:00Z`,
+  ...overrides,
+})
+
+const show: TraktShow = { title: 'a', year: 2020, ids: { trakt: 1, slug: 'a' } }
+
+describe('commentExcerpt', () => {
+  test('keeps a short comment whole, whitespace collapsed', () => {
+    expect(commentExcerpt('  Loved it.\n\nEvery  minute. ')).toBe(
+      'Loved it. Every minute.',
+    )
+  })
+
+  test('cuts a long one at a word, without trailing punctuation', () => {
+    expect(commentExcerpt('one two, three four', 12)).toBe('one two…')
+    expect(commentExcerpt('onetwothreefour', 6)).toBe('onetwo…')
+  })
+})
+
+describe('toWatchlogComment', () => {
+  test('tells a review from a shout and links the comment', () => {
+    expect(toWatchlogComment(comment(7, 'Fine.', { review: true }))).toEqual({
+      kind: 'review',
+      excerpt: 'Fine.',
+      spoiler: false,
+      url: 'https://trakt.tv/comments/7',
+    })
+  })
+
+  test('hides a comment with tagged spoilers and drops the tags', () => {
+    const parsed = toWatchlogComment(
+      comment(1, 'Great. [spoiler]He dies.[/spoiler]'),
+    )
+    expect(parsed).toMatchObject({ excerpt: 'Great. He dies.', spoiler: true })
+    // And the next comment is not tainted by the last match
+    expect(toWatchlogComment(comment(2, 'Great.')).spoiler).toBe(false)
+  })
+
+  test('keeps the flag Trakt set', () => {
+    expect(
+      toWatchlogComment(comment(1, 'Twist!', { spoiler: true })).spoiler,
+    ).toBe(true)
+  })
+})
+
+describe('collectComments', () => {
+  test('keys by title like the ratings, the newest winning', () => {
+    const items: TraktCommentItem[] = [
+      {
+        type: 'episode',
+        comment: comment(3, 'newer'),
+        show,
+        episode: { season: 2, number: 4 },
+      },
+      {
+        type: 'episode',
+        comment: comment(1, 'older'),
+        show,
+        episode: { season: 2, number: 4 },
+      },
+      {
+        type: 'season',
+        comment: comment(2, 'season'),
+        show,
+        season: { number: 2 },
+      },
+      { type: 'list', comment: comment(4, 'a list') },
+    ]
+    const comments = collectComments(items)
+    expect(comments.episodes.get('1-2-4')?.excerpt).toBe('newer')
+    expect(comments.seasons.get('1-2')?.excerpt).toBe('season')
+    expect(comments.shows.size + comments.movies.size).toBe(0)
+  })
+})
@@ -0,0 +1,98 @@
+/**
+ * My own Trakt comments, cut down to what a watchlog card shows. Trakt keeps
+ * reviews and shouts apart only by length, and spoilers two ways: a flag on
+ * the whole comment or `[spoiler]` tags around part of it. Either one hides
+ * the whole excerpt, since an excerpt can cut a tag in half.
+ */
+
+import type { WatchlogComment } from '@/features/watchlog/types'
+import type { TraktMovie, TraktShow } from './watchlog'
+
+// About a tweet: the card links on to Trakt for the rest
+export const EXCERPT_LENGTH = 280
+
+export interface TraktComment {
+  id: number
+  comment: string
+  spoiler: boolean
+  review: boolean
+  created_at: string
+}
+
+export interface TraktCommentItem {
+  type: 'movie' | 'show' | 'season' | 'episode' | 'list'
+  comment: TraktComment
+  movie?: TraktMovie
+  show?: TraktShow
+  season?: { number: number }
+  episode?: { season: number; number: number }
+}
+
+/** Keyed like the ratings, the newest comment per title */
+export interface Comments {
+  movies: Map<number, WatchlogComment>
+  shows: Map<number, WatchlogComment>
+  seasons: Map<string, WatchlogComment>
+  episodes: Map<string, WatchlogComment>
+}
+
+const SPOILER_TAGS = /\[\/?spoiler\]/gi
+const HAS_SPOILER = /\[spoiler\]/i
+
+/** Whitespace collapsed, cut at a word boundary with an ellipsis */
+export function commentExcerpt(text: string, length = EXCERPT_LENGTH): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  if (flat.length <= length) return flat
+  const cut = flat.slice(0, length)
+  const space = cut.lastIndexOf(' ')
+  return `${(space > 0 ? cut.slice(0, space) : cut).replace(/[\s.,;:!?-]+$/, '')}…`
+}
+
+export function toWatchlogComment({
+  id,
+  comment,
+  spoiler,
+  review,
+}: TraktComment): WatchlogComment {
+  return {
+    kind: review ? 'review' : 'shout',
+    excerpt: commentExcerpt(comment.replace(SPOILER_TAGS, '')),
+    spoiler: spoiler || HAS_SPOILER.test(comment),
+    url: `https://trakt.tv/comments/${id}`,
+  }
+}
+
+/** Comments on lists, or on titles Trakt left out, are dropped */
+export function collectComments(items: TraktCommentItem[]): Comments {
+  const comments: Comments = {
+    movies: new Map(),
+    shows: new Map(),
+    seasons: new Map(),
+    episodes: new Map(),
+  }
+
+  // Oldest first, so a newer comment on the same title overwrites
+  const oldestFirst = [...items].sort((a, b) =>
+    a.comment.created_at.localeCompare(b.comment.created_at),
+  )
+  for (const item of oldestFirst) {
+    const comment = toWatchlogComment(item.comment)
+    if (item.type === 'movie' && item.movie) {
+      comments.movies.set(item.movie.ids.trakt, comment)
+    } else if (item.type === 'show' && item.show) {
+      comments.shows.set(item.show.ids.trakt, comment)
+    } else if (item.type === 'season' && item.show && item.season) {
+      comments.seasons.set(
+        `${item.show.ids.trakt}-${item.season.number}`,
+        comment,
+      )
+    } else if (item.type === 'episode' && item.show && item.episode) {
+      comments.episodes.set(
+        `${item.show.ids.trakt}-${item.episode.season}-${item.episode.number}`,
+        comment,
+      )
+    }
+  }
+
+  return comments
+}
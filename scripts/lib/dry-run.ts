@@ -0,0 +1,151 @@
+/**
+ * Dry runs for the sync scripts
+ *
+ * `--dry-run` (or `--out <dir>`) turns a run's last step around: instead of
+ * writing to GitHub, the script writes what it would have published into a
+ * local directory, each file next to a readable diff against what is live.
+ * Reads still happen, writes of any kind do not.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+
+const DEFAULT_OUT_DIR = 'dry-run'
+
+export interface DryRun {
+  /** Absolute, so the log line says exactly where to look */
+  outDir: string
+}
+
+/** The dry run asked for on the command line, undefined for a real run */
+export function readDryRun(): DryRun | undefined {
+  const { values } = parseArgs({
+    options: {
+      'dry-run': { type: 'boolean' },
+      out: { type: 'string' },
+    },
+  })
+  if (!values['dry-run'] && values.out === undefined) return undefined
+  return { outDir: path.resolve(values.out ?? DEFAULT_OUT_DIR) }
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+/**
+ * One line per entry that changed, keyed by `keyOf`: `+` new, `-` gone,
+ * `~` same key with different content. A key seen twice gets a counter, so
+ * two cards for the same season in the same period stay two entries.
+ */
+export function diffList<T>(
+  label: string,
+  previous: T[],
+  next: T[],
+  keyOf: (item: T) => string,
+  describe: (item: T) => string,
+): string[] {
+  const index = (items: T[]) => {
+    const seen = new Map<string, number>()
+    return new Map(
+      items.map((item) => {
+        const key = keyOf(item)
+        const count = (seen.get(key) ?? 0) + 1
+        seen.set(key, count)
+        return [`${key}#${count}`, item] as const
+      }),
+    )
+  }
+  const before = index(previous)
+  const after = index(next)
+
+  const lines: string[] = []
+  let added = 0
+  let removed = 0
+  let changed = 0
+
+  for (const [key, item] of after) {
+    const old = before.get(key)
+    if (old === undefined) {
+      lines.push(`+ ${describe(item)}`)
+      added++
+    } else if (JSON.stringify(old) !== JSON.stringify(item)) {
+      lines.push(`~ ${describe(item)}`)
+      changed++
+    }
+  }
+  for (const [key, item] of before) {
+    if (!after.has(key)) {
+      lines.push(`- ${describe(item)}`)
+      removed++
+    }
+  }
+
+  return [
+    `## ${label}: ${added} added, ${removed} removed, ${changed} changed`,
+    ...lines,
+  ]
+}
+
+/** Leaf-by-leaf diff of a plain object, for stats and cursors */
+export function diffValues(
+  label: string,
+  previous: unknown,
+  next: unknown,
+): string[] {
+  const flatten = (value: unknown, prefix: string): [string, string][] =>
+    value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? Object.entries(value).flatMap(([key, child]) =>
+          flatten(child, prefix ? `${prefix}.${key}` : key),
+        )
+      : [[prefix, JSON.stringify(value)]]
+
+  const before = new Map(flatten(previous, ''))
+  const after = new Map(flatten(next, ''))
+  const keys = [...new Set([...before.keys(), ...after.keys()])].sort()
+
+  const lines = keys.flatMap((key) =>
+    before.get(key) === after.get(key)
+      ? []
+      : [
+          `~ ${key}: ${before.get(key) ?? '(none)'} -> ${after.get(key) ?? '(none)'}`,
+        ],
+  )
+  return [`## ${label}: ${lines.length} changed`, ...lines]
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+export interface DryRunFile {
+  name: string
+  /** Written as JSON, or as is when it already is text (a feed, say) */
+  data: unknown
+  /** Sections from diffList / diffValues */
+  diff: string[][]
+}
+
+/** Each file as `<name>` plus its diff as `<name>.diff.txt` */
+export async function writeDryRun(
+  dryRun: DryRun,
+  files: DryRunFile[],
+): Promise<void> {
+  await mkdir(dryRun.outDir, { recursive: true })
+
+  for (const file of files) {
+    const target = path.join(dryRun.outDir, file.name)
+    await writeFile(
+      target,
+      typeof file.data === 'string'
+        ? file.data
+        : `${JSON.stringify(file.data, null, 2)}\n`,
+    )
+    await writeFile(
+      `${target}.diff.txt`,
+      `${file.diff.map((section) => section.join('\n')).join('\n\n')}\n`,
+    )
+    console.log(`Dry run: wrote ${target} and its diff`)
+  }
+}
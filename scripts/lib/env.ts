@@ -0,0 +1,39 @@
+/** The value of a required variable; a missing one ends the run right here */
+export function requireEnv(name: string): string {
+  const value = process.env[name]
+  if (!value) {
+    console.error(`Missing required environment variable: ${name}`)
+    process.exit(1)
+  }
+  return value
+}
+
+/** The value of an optional variable; empty reads as unset, as Actions sends it */
+export function optionalEnv(name: string): string | undefined {
+  return process.env[name] || undefined
+}
+
+/**
+ * A numeric variable, `fallback` when unset; anything not a number, or below
+ * `min` when given, ends the run
+ */
+export function numberEnv(
+  name: string,
+  fallback: number,
+  { min = -Infinity } = {},
+): number {
+  const value = optionalEnv(name)
+  if (value === undefined) return fallback
+  const number = Number(value)
+  if (!Number.isFinite(number)) {
+    console.error(`Environment variable ${name} must be a number: ${value}`)
+    process.exit(1)
+  }
+  if (number < min) {
+    console.error(
+      `Environment variable ${name} must be at least ${min}: ${value}`,
+    )
+    process.exit(1)
+  }
+  return number
+}
@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { freezeClock, redact, replayingFetch, type Exchange } from './fixtures'
+
+describe('redact', () => {
+  test('blanks secret-named strings at any depth', () => {
+    const body = JSON.stringify({
+      access_token: 'a',
+      refresh_token: 'r',
+      client_secret: 's',
+      nested: { api_key: 'k', password: 'p' },
+      title: 'Severance',
+    })
+    expect(JSON.parse(redact(body))).toEqual({
+      access_token: 'REDACTED',
+      refresh_token: 'REDACTED',
+      client_secret: 'REDACTED',
+      nested: { api_key: 'REDACTED', password: 'REDACTED' },
+      title: 'Severance',
+    })
+  })
+
+  test('keeps non-string values under a secret name', () => {
+    expect(JSON.parse(redact('{"expires_in_token":3600}'))).toEqual({
+      expires_in_token: 3600,
+    })
+  })
+
+  test('passes a body that is not JSON through', () => {
+    expect(redact('<html>token=abc</html>')).toBe('<html>token=abc</html>')
+  })
+})
+
+describe('replayingFetch', () => {
+  const exchange = (url: string, body: string, method = 'GET'): Exchange => ({
+    method,
+    url,
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+    body,
+  })
+
+  test('serves concurrent requests to one url in recorded order', async () => {
+    const replay = replayingFetch([
+      exchange('https://api.trakt.tv/sync/history?page=1', '"first"'),
+      exchange('https://api.trakt.tv/users/me/stats', '"stats"'),
+      exchange('https://api.trakt.tv/sync/history?page=1', '"second"'),
+    ])
+    const bodies = await Promise.all([
+      replay('https://api.trakt.tv/sync/history?page=1').then((r) => r.json()),
+      replay('https://api.trakt.tv/sync/history?page=1').then((r) => r.json()),
+      replay('https://api.trakt.tv/users/me/stats').then((r) => r.json()),
+    ])
+    expect(bodies).toEqual(['first', 'second', 'stats'])
+  })
+
+  test('matches on the method as well as the url', async () => {
+    const replay = replayingFetch([
+      exchange('https://api.trakt.tv/oauth/token', '"posted"', 'POST'),
+    ])
+    await expect(replay('https://api.trakt.tv/oauth/token')).rejects.toThrow(
+      'nothing recorded for GET',
+    )
+    const response = await replay('https://api.trakt.tv/oauth/token', {
+      method: 'post',
+    })
+    expect(await response.json()).toBe('posted')
+  })
+
+  test('runs dry once a key is spent', async () => {
+    const replay = replayingFetch([exchange('https://t.me/s/a', '"page"')])
+    await replay('https://t.me/s/a')
+    await expect(replay('https://t.me/s/a')).rejects.toThrow(
+      'Fixtures: nothing recorded for GET https://t.me/s/a',
+    )
+  })
+
+  test('decodes base64 bodies and keeps null-body statuses empty', async () => {
+    const replay = replayingFetch([
+      {
+        ...exchange('https://cdn.example/photo.jpg', '/9j/'),
+        encoding: 'base64',
+      },
+      { ...exchange('https://api.github.com/x', '', 'DELETE'), status: 204 },
+    ])
+    const photo = await replay('https://cdn.example/photo.jpg')
+    expect([...new Uint8Array(await photo.arrayBuffer())]).toEqual([
+      0xff, 0xd8, 0xff,
+    ])
+    const deleted = await replay('https://api.github.com/x', {
+      method: 'DELETE',
+    })
+    expect(deleted.status).toBe(204)
+    expect(deleted.body).toBeNull()
+  })
+})
+
+describe('freezeClock', () => {
+  const RealDate = Date
+  afterEach(() => {
+    globalThis.Date = RealDate
+  })
+
+  test('stops now and bare dates, leaves explicit ones alone', () => {
+    const instant = RealDate.parse('2025-01-10T09:00:00Z')
+    freezeClock(instant)
+    expect(Date.now()).toBe(instant)
+    expect(new Date().toISOString()).toBe('2025-01-10T09:00:00.000Z')
+    expect(new Date('2024-12-31T00:00:00Z').toISOString()).toBe(
+      '2024-12-31T00:00:00.000Z',
+    )
+    expect(new Date(0).getTime()).toBe(0)
+  })
+})
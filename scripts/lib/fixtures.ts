@@ -0,0 +1,203 @@
+/**
+ * Record and replay every HTTP exchange of a sync script
+ *
+ * FIXTURES_MODE=record runs the script for real and saves each fetch it made
+ * to `<FIXTURES_DIR>/<script>.json`; FIXTURES_MODE=replay serves them back
+ * with fetch never touching the network, and with the clock frozen at the
+ * moment of recording, so "today", cursors and expiry come out the same on
+ * every replay. Both run the whole main(), which makes a replay a test of it.
+ *
+ * Record against a dry run or the local backend: the harness saves writes as
+ * faithfully as reads, and it does not stop them from happening.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+
+const DEFAULT_DIR = 'fixtures'
+
+export interface Exchange {
+  method: string
+  url: string
+  /** Redacted, kept so a changed prompt or payload is visible in review */
+  request_body?: string
+  status: number
+  headers: Record<string, string>
+  body: string
+  /** Photos and other binary bodies are stored as base64 */
+  encoding?: 'base64'
+}
+
+type Fetch = (...args: Parameters<typeof fetch>) => Promise<Response>
+
+export interface Recording {
+  /** The frozen "now" of every replay */
+  recorded_at: string
+  exchanges: Exchange[]
+}
+
+// Token responses and the refresh request carry live credentials
+const SECRET_KEY = /token|secret|password|api_key/i
+
+/** Secret-named string fields of a JSON body replaced; anything else as is */
+export function redact(text: string): string {
+  try {
+    return JSON.stringify(
+      JSON.parse(text),
+      (key, value: unknown) =>
+        SECRET_KEY.test(key) && typeof value === 'string' ? 'REDACTED' : value,
+      2,
+    )
+  } catch {
+    return text
+  }
+}
+
+const isText = (contentType: string | null) =>
+  !contentType || /json|text|xml|html|javascript/.test(contentType)
+
+const keyOf = (method: string, url: string) => `${method} ${url}`
+
+function describe(input: Parameters<typeof fetch>[0], init?: RequestInit) {
+  const request = input instanceof Request ? input : undefined
+  const url = request?.url ?? String(input)
+  const method = (init?.method ?? request?.method ?? 'GET').toUpperCase()
+  const body = typeof init?.body === 'string' ? init.body : undefined
+  return { url, method, body }
+}
+
+/**
+ * Patches fetch (and in replay, Date) according to FIXTURES_MODE. Call it
+ * first thing in main(), before anything reads the clock or the network.
+ */
+export function installFixtures(script: string): void {
+  const mode = process.env.FIXTURES_MODE
+  if (!mode) return
+
+  const file = path.resolve(
+    process.env.FIXTURES_DIR || DEFAULT_DIR,
+    `${script}.json`,
+  )
+
+  if (mode === 'record') {
+    record(file)
+  } else if (mode === 'replay') {
+    replay(file)
+  } else {
+    throw new Error(`Unknown FIXTURES_MODE: ${mode} (record or replay)`)
+  }
+}
+
+function record(file: string): void {
+  const realFetch = globalThis.fetch
+  const recording: Recording = {
+    recorded_at: new Date().toISOString(),
+    exchanges: [],
+  }
+
+  const recordingFetch: Fetch = async (input, init) => {
+    const { url, method, body } = describe(input, init)
+    const response = await realFetch(input, init)
+
+    // Read a clone, so the script still gets an unread body
+    const contentType = response.headers.get('content-type')
+    const clone = response.clone()
+    const text = isText(contentType)
+    const content = text
+      ? redact(await clone.text())
+      : Buffer.from(await clone.arrayBuffer()).toString('base64')
+
+    recording.exchanges.push({
+      method,
+      url,
+      ...(body !== undefined && { request_body: redact(body) }),
+      status: response.status,
+      headers: Object.fromEntries(response.headers),
+      body: content,
+      ...(!text && { encoding: 'base64' as const }),
+    })
+    return response
+  }
+  globalThis.fetch = Object.assign(recordingFetch, {
+    preconnect: realFetch.preconnect,
+  })
+
+  // Sync on purpose: 'exit' also fires on process.exit, a failed run included
+  process.on('exit', () => {
+    mkdirSync(path.dirname(file), { recursive: true })
+    writeFileSync(file, `${JSON.stringify(recording, null, 2)}\n`)
+    console.log(
+      `Fixtures: recorded ${recording.exchanges.length} exchanges to ${file}`,
+    )
+  })
+}
+
+/**
+ * A fetch that answers from `exchanges` alone. Concurrent requests finish in
+ * any order, so exchanges are matched by method and url, each key serving its
+ * responses in recorded order.
+ */
+export function replayingFetch(exchanges: Exchange[]): Fetch {
+  const queues = new Map<string, Exchange[]>()
+  for (const exchange of exchanges) {
+    const key = keyOf(exchange.method, exchange.url)
+    queues.set(key, [...(queues.get(key) ?? []), exchange])
+  }
+
+  return async (input, init) => {
+    const { url, method } = describe(input, init)
+    const exchange = queues.get(keyOf(method, url))?.shift()
+    if (!exchange) {
+      throw new Error(`Fixtures: nothing recorded for ${method} ${url}`)
+    }
+
+    const body =
+      exchange.encoding === 'base64'
+        ? Buffer.from(exchange.body, 'base64')
+        : exchange.body
+    // Null-body statuses reject any body, even an empty string
+    const empty = [204, 205, 304].includes(exchange.status)
+    return new Response(empty ? null : body, {
+      status: exchange.status,
+      headers: exchange.headers,
+    })
+  }
+}
+
+function replay(file: string): void {
+  if (!existsSync(file)) {
+    throw new Error(`No fixtures at ${file}, record them first`)
+  }
+  const recording = JSON.parse(readFileSync(file, 'utf8')) as Recording
+
+  // Nothing to warm up against recorded responses
+  globalThis.fetch = Object.assign(replayingFetch(recording.exchanges), {
+    preconnect: () => {},
+  })
+
+  freezeClock(Date.parse(recording.recorded_at))
+  console.log(
+    `Fixtures: replaying ${recording.exchanges.length} exchanges, clock at ${recording.recorded_at}`,
+  )
+}
+
+/** `new Date()` and `Date.now()` answer the recorded instant from here on */
+export function freezeClock(instant: number): void {
+  const RealDate = Date
+
+  class FrozenDate extends RealDate {
+    constructor(...args: unknown[]) {
+      if (args.length === 0) {
+        super(instant)
+      } else {
+        super(...(args as ConstructorParameters<DateConstructor>))
+      }
+    }
+
+    static now(): number {
+      return instant
+    }
+  }
+
+  globalThis.Date = FrozenDate as DateConstructor
+}
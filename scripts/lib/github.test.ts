@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import libsodium from 'libsodium-wrappers'
+import { createGitHubClient, GitHubError } from './github'
+
+const realFetch = globalThis.fetch
+const realEnv = { ...process.env }
+let calls: { url: string; init?: RequestInit }[]
+
+/** Answers every request with `respond`, keeping what was asked */
+function stubFetch(respond: (url: string) => Response) {
+  globalThis.fetch = (async (input: string, init?: RequestInit) => {
+    calls.push({ url: input, init })
+    return respond(input)
+  }) as typeof fetch
+}
+
+beforeEach(() => {
+  calls = []
+  process.env.GH_TOKEN = 'token'
+  process.env.GH_REPOSITORY = 'owner/repo'
+})
+
+afterEach(() => {
+  globalThis.fetch = realFetch
+  process.env = { ...realEnv }
+})
+
+describe('createGitHubClient', () => {
+  test('authenticates and scopes calls to the repository', async () => {
+    stubFetch(() => Response.json({ id: 42 }))
+    expect(await createGitHubClient().getReleaseId('media')).toBe(42)
+
+    const [{ url, init }] = calls
+    expect(url).toBe(
+      'https://api.github.com/repos/owner/repo/releases/tags/media',
+    )
+    expect(init?.headers).toMatchObject({ Authorization: 'Bearer token' })
+  })
+
+  test('turns a failed response into a GitHubError with its status', async () => {
+    stubFetch(() => new Response('{"message":"Conflict"}', { status: 409 }))
+    const error = await createGitHubClient()
+      .getGist('abc')
+      .catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(GitHubError)
+    expect(error).toMatchObject({ status: 409, body: '{"message":"Conflict"}' })
+  })
+
+  test('reads a missing directory as an empty one', async () => {
+    stubFetch(() => new Response('Not Found', { status: 404 }))
+    expect(await createGitHubClient().listContents('public/data')).toEqual([])
+  })
+
+  test('pages release assets until a short page', async () => {
+    const full = Array.from({ length: 100 }, (_, id) => ({ id }))
+    stubFetch((url) =>
+      Response.json(url.endsWith('page=1') ? full : [{ id: 100 }]),
+    )
+    const assets = await createGitHubClient().listReleaseAssets(7)
+    expect(assets).toHaveLength(101)
+    expect(calls).toHaveLength(2)
+  })
+
+  test('asks for the public key again after a failed read', async () => {
+    await libsodium.ready
+    const key = Buffer.from(libsodium.crypto_box_keypair().publicKey).toString(
+      'base64',
+    )
+    let keyReads = 0
+    stubFetch((url) => {
+      if (!url.endsWith('/public-key'))
+        return new Response(null, { status: 204 })
+      keyReads++
+      return keyReads === 1
+        ? new Response('Server Error', { status: 502 })
+        : Response.json({ key_id: 'k1', key })
+    })
+
+    const github = createGitHubClient()
+    await expect(github.updateSecret('A', 'a')).rejects.toBeInstanceOf(
+      GitHubError,
+    )
+    await github.updateSecret('B', 'b')
+    await github.updateSecret('C', 'c')
+
+    expect(keyReads).toBe(2)
+    expect(calls.map(({ url }) => url.split('/').at(-1))).toEqual([
+      'public-key',
+      'public-key',
+      'B',
+      'C',
+    ])
+  })
+})
@@ -0,0 +1,237 @@
+/**
+ * Every GitHub REST call the sync scripts make, behind one typed client:
+ * Gists and repository files for storage.ts, the media release for
+ * sync-whatsnext, Actions secrets for sync-trakt's token rotation.
+ *
+ * GH_TOKEN and GH_REPOSITORY are read on the first call that needs them, so
+ * a run that never calls GitHub, on the local backend, goes without them.
+ */
+
+import libsodium from 'libsodium-wrappers'
+import { requireEnv } from './env'
+
+const API_BASE = 'https://api.github.com'
+const UPLOADS_BASE = 'https://uploads.github.com'
+
+// Release assets come 100 to a page at most
+const ASSETS_PER_PAGE = 100
+
+/** A response outside 2xx; status and body stay readable for the caller */
+export class GitHubError extends Error {
+  readonly status: number
+  readonly body: string
+
+  constructor(request: string, status: number, body: string) {
+    super(`GitHub API error: ${status} on ${request} - ${body}`)
+    this.name = 'GitHubError'
+    this.status = status
+    this.body = body
+  }
+}
+
+export interface GistFile {
+  content: string
+  /** Set past 1 MB: the content is cut and only raw_url has the rest */
+  truncated?: boolean
+  /** Names the file's own revision, so two reads compare by it */
+  raw_url: string
+}
+
+export interface Gist {
+  files: Record<string, GistFile>
+  /** Newest first */
+  history: { version: string }[]
+}
+
+export interface ContentEntry {
+  name: string
+  sha: string
+}
+
+export interface ReleaseAsset {
+  id: number
+  name: string
+  created_at: string
+  browser_download_url: string
+}
+
+export interface GitHubClient {
+  getGist(id: string): Promise<Gist>
+  /** Creates or replaces each named file; the others stay as they are */
+  updateGist(id: string, files: Record<string, string>): Promise<Gist>
+  /** A truncated Gist file in full */
+  readGistFile(file: GistFile): Promise<string>
+
+  /** Files in a repository directory, an empty list when there is none */
+  listContents(dir: string): Promise<ContentEntry[]>
+  readContent(path: string): Promise<string>
+  /** Commits one file; `sha` names the revision an update replaces */
+  putContent(
+    path: string,
+    file: { message: string; content: string; sha?: string },
+  ): Promise<ContentEntry>
+
+  getReleaseId(tag: string): Promise<number>
+  listReleaseAssets(releaseId: number): Promise<ReleaseAsset[]>
+  uploadReleaseAsset(
+    releaseId: number,
+    name: string,
+    body: Uint8Array,
+    contentType: string,
+  ): Promise<ReleaseAsset>
+  deleteReleaseAsset(assetId: number): Promise<void>
+
+  /** Sealed with the repository's public key, which one client reads once */
+  updateSecret(name: string, value: string): Promise<void>
+}
+
+interface PublicKey {
+  key_id: string
+  key: string
+}
+
+async function sealSecret(secret: string, publicKey: string): Promise<string> {
+  await libsodium.ready
+  const keyBytes = Uint8Array.from(atob(publicKey), (c) => c.charCodeAt(0))
+  const secretBytes = new TextEncoder().encode(secret)
+  const encrypted = libsodium.crypto_box_seal(secretBytes, keyBytes)
+  return Buffer.from(encrypted).toString('base64')
+}
+
+export function createGitHubClient(): GitHubClient {
+  const headers = (): Record<string, string> => ({
+    Accept: 'application/vnd.github+json',
+    Authorization: `Bearer ${requireEnv('GH_TOKEN')}`,
+    'X-GitHub-Api-Version': '2022-11-28',
+  })
+  const repo = () => `/repos/${requireEnv('GH_REPOSITORY')}`
+
+  async function send(
+    path: string,
+    init: RequestInit = {},
+    base = API_BASE,
+  ): Promise<Response> {
+    const response = await fetch(`${base}${path}`, {
+      ...init,
+      headers: { ...headers(), ...init.headers },
+    })
+    if (!response.ok) {
+      throw new GitHubError(
+        `${init.method ?? 'GET'} ${path}`,
+        response.status,
+        await response.text(),
+      )
+    }
+    return response
+  }
+
+  const json = async <T>(path: string, init?: RequestInit) =>
+    (await (await send(path, init)).json()) as T
+
+  let publicKey: Promise<PublicKey> | undefined
+
+  return {
+    getGist: (id) => json(`/gists/${id}`),
+
+    updateGist: (id, files) =>
+      json(`/gists/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({
+          files: Object.fromEntries(
+            Object.entries(files).map(([name, content]) => [name, { content }]),
+          ),
+        }),
+      }),
+
+    async readGistFile(file) {
+      // Public, on another host: no token goes along
+      const response = await fetch(file.raw_url)
+      if (!response.ok) {
+        throw new GitHubError(
+          `GET ${file.raw_url}`,
+          response.status,
+          await response.text(),
+        )
+      }
+      return response.text()
+    },
+
+    async listContents(dir) {
+      try {
+        return await json<ContentEntry[]>(`${repo()}/contents/${dir}`)
+      } catch (error) {
+        if (error instanceof GitHubError && error.status === 404) return []
+        throw error
+      }
+    },
+
+    async readContent(path) {
+      // Raw media type: the JSON one stops carrying content past 1 MB
+      const response = await send(`${repo()}/contents/${path}`, {
+        headers: { Accept: 'application/vnd.github.raw+json' },
+      })
+      return response.text()
+    },
+
+    async putContent(path, { message, content, sha }) {
+      const { content: entry } = await json<{ content: ContentEntry }>(
+        `${repo()}/contents/${path}`,
+        {
+          method: 'PUT',
+          body: JSON.stringify({
+            message,
+            content: Buffer.from(content).toString('base64'),
+            ...(sha && { sha }),
+          }),
+        },
+      )
+      return entry
+    },
+
+    async getReleaseId(tag) {
+      return (await json<{ id: number }>(`${repo()}/releases/tags/${tag}`)).id
+    },
+
+    async listReleaseAssets(releaseId) {
+      const assets: ReleaseAsset[] = []
+      for (let page = 1; ; page++) {
+        const batch = await json<ReleaseAsset[]>(
+          `${repo()}/releases/${releaseId}/assets?per_page=${ASSETS_PER_PAGE}&page=${page}`,
+        )
+        assets.push(...batch)
+        if (batch.length < ASSETS_PER_PAGE) return assets
+      }
+    },
+
+    async uploadReleaseAsset(releaseId, name, body, contentType) {
+      const response = await send(
+        `${repo()}/releases/${releaseId}/assets?name=${name}`,
+        { method: 'POST', headers: { 'Content-Type': contentType }, body },
+        UPLOADS_BASE,
+      )
+      return (await response.json()) as ReleaseAsset
+    },
+
+    async deleteReleaseAsset(assetId) {
+      await send(`${repo()}/releases/assets/${assetId}`, { method: 'DELETE' })
+    },
+
+    async updateSecret(name, value) {
+      // A failed read is dropped, so the next secret asks again
+      publicKey ??= json<PublicKey>(
+        `${repo()}/actions/secrets/public-key`,
+      ).catch((error: unknown) => {
+        publicKey = undefined
+        throw error
+      })
+      const { key, key_id } = await publicKey
+      await send(`${repo()}/actions/secrets/${name}`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          encrypted_value: await sealSecret(value, key),
+          key_id,
+        }),
+      })
+    },
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test'
+import { buildCalendar, escapeText, foldLine } from './ical'
+
+const octets = (line: string) => new TextEncoder().encode(line).length
+
+describe('escapeText', () => {
+  test('escapes backslashes, separators and newlines', () => {
+    expect(escapeText('a\\b; c, d\ne\r\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf')
+  })
+})
+
+describe('foldLine', () => {
+  test('leaves a 75-octet line alone', () => {
+    const line = 'x'.repeat(75)
+    expect(foldLine(line)).toBe(line)
+  })
+
+  test('continuation lines start with a space and stay within 75 octets', () => {
+    const line = `SUMMARY:${'x'.repeat(200)}`
+    const parts = foldLine(line).split('\r\n')
+    expect(parts.map(octets).every((size) => size <= 75)).toBe(true)
+    expect(parts.slice(1).every((part) => part.startsWith(' '))).toBe(true)
+    expect(parts.map((part, i) => (i ? part.slice(1) : part)).join('')).toBe(
+      line,
+    )
+  })
+
+  test('never splits a multibyte character', () => {
+    // Two octets each: 74 of them put the 38th across the first fold
+    const line = `SUMMARY:${'ё'.repeat(74)}`
+    const parts = foldLine(line).split('\r\n')
+    expect(octets(parts[0])).toBe(74)
+    expect(parts.map(octets).every((size) => size <= 75)).toBe(true)
+    expect(parts.map((part, i) => (i ? part.slice(1) : part)).join('')).toBe(
+      line,
+    )
+  })
+})
+
+describe('buildCalendar', () => {
+  const now = new Date('2025-01-10T12:34:56.789Z')
+
+  test('all-day events end the day after their last day', () => {
+    const ics = buildCalendar(
+      'Premieres',
+      [
+        { uid: 'one@test', start: '2025-01-31', summary: 'One day' },
+        {
+          uid: 'many@test',
+          start: '2025-02-27',
+          end: '2025-03-01',
+          summary: 'Three days',
+        },
+      ],
+      now,
+    )
+    const lines = ics.split('\r\n')
+
+    expect(lines.filter((line) => line.startsWith('DT'))).toEqual([
+      'DTSTAMP:20250110T123456Z',
+      'DTSTART;VALUE=DATE:20250131',
+      'DTEND;VALUE=DATE:20250201',
+      'DTSTAMP:20250110T123456Z',
+      'DTSTART;VALUE=DATE:20250227',
+      'DTEND;VALUE=DATE:20250302',
+    ])
+  })
+
+  test('CRLF throughout, optional fields left out', () => {
+    const ics = buildCalendar(
+      'A, B',
+      [{ uid: 'x@test', start: '2025-01-10', summary: 'X' }],
+      now,
+    )
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n')
+    expect(ics).toContain('X-WR-CALNAME:A\\, B\r\n')
+    expect(ics).not.toContain('DESCRIPTION')
+    expect(ics).not.toContain('URL:')
+    expect(ics).not.toContain('SEQUENCE')
+    expect(ics).not.toContain('LAST-MODIFIED')
+  })
+
+  test('revisions carry SEQUENCE and LAST-MODIFIED', () => {
+    const ics = buildCalendar(
+      'Events',
+      [
+        {
+          uid: 'x@test',
+          start: '2025-01-10',
+          summary: 'X',
+          sequence: 2,
+          modified: '2025-01-08T07:00:00.000Z',
+        },
+      ],
+      now,
+    )
+    expect(ics).toContain(
+      'DTSTAMP:20250110T123456Z\r\nSEQUENCE:2\r\nLAST-MODIFIED:20250108T070000Z\r\n',
+    )
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * iCalendar (RFC 5545) output for the subscribable feeds. Only what an
+ * all-day feed needs: a calendar of VEVENTs with DATE values, escaped text
+ * and folded lines. A subscribed calendar replaces its copy on every refresh,
+ * so events keep their UID across runs and a dropped event just disappears.
+ * Clients that cache by UID need SEQUENCE or LAST-MODIFIED to take a change.
+ */
+
+import { shiftDate } from '@/shared/lib/zoned-date'
+
+// Most clients ignore it and poll on their own schedule; the rest get a hint
+const REFRESH_INTERVAL = 'PT12H'
+
+export interface IcalEvent {
+  /** Stable across runs, or subscribers see a removal plus a new event */
+  uid: string
+  /** YYYY-MM-DD */
+  start: string
+  /** YYYY-MM-DD, inclusive; a one-day event leaves it out */
+  end?: string
+  summary: string
+  description?: string
+  url?: string
+  /** Revisions so far; left out, it reads as 0 */
+  sequence?: number
+  /** ISO instant of the last change, where the caller keeps one */
+  modified?: string
+}
+
+/** TEXT values escape backslashes, separators and newlines (3.3.11) */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+const encoder = new TextEncoder()
+
+/** Lines fold at 75 octets, never inside a character (3.1) */
+export function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  // The continuation's leading space counts towards its 75
+  let limit = 75
+
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+      limit = 74
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+const icalDate = (isoDate: string) => isoDate.replace(/-/g, '')
+
+/** `2025-01-10T12:34:56.789Z` -> `20250110T123456Z` */
+const icalStamp = (instant: Date) =>
+  instant
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+
+/** The whole feed, CRLF line endings included */
+export function buildCalendar(
+  name: string,
+  events: IcalEvent[],
+  now: Date,
+): string {
+  const stamp = icalStamp(now)
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//sync-scripts//feeds//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...events.flatMap((event) => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      ...(event.sequence ? [`SEQUENCE:${event.sequence}`] : []),
+      ...(event.modified
+        ? [`LAST-MODIFIED:${icalStamp(new Date(event.modified))}`]
+        : []),
+      `DTSTART;VALUE=DATE:${icalDate(event.start)}`,
+      // DTEND is exclusive: the day after the last one
+      `DTEND;VALUE=DATE:${icalDate(shiftDate(event.end ?? event.start, 1))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description
+        ? [`DESCRIPTION:${escapeText(event.description)}`]
+        : []),
+      ...(event.url ? [`URL:${event.url}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ]
+  return `${lines.map(foldLine).join('\r\n')}\r\n`
+}
@@ -0,0 +1,136 @@
+import { describe, expect, test } from 'bun:test'
+import { buildRecap } from './recap'
+import type { TraktHistoryItem } from './watchlog'
+import { episode, movie, noRatings, show, watchedMovie } from './test-builders'
+
+/** Newest first, the way the archive hands plays over */
+const newestFirst = (plays: TraktHistoryItem[]) =>
+  [...plays].sort((a, b) => b.watched_at.localeCompare(a.watched_at))
+
+describe('buildRecap', () => {
+  const a = show(1, 'a')
+  const b = show(2, 'b')
+
+  test('counts unique titles, every episode play, and known runtimes', () => {
+    const recap = buildRecap(
+      newestFirst([
+        watchedMovie('2024-02-01T18:00:00Z', movie(7, 120)),
+        // A rewatch is a play, not a second title
+        watchedMovie('2024-06-01T18:00:00Z', movie(7, 120)),
+        watchedMovie('2024-06-02T18:00:00Z', movie(8)),
+        episode('2024-03-01T18:00:00Z', a, 1, 1, 60),
+        episode('2024-03-01T19:00:00Z', a, 1, 1, 60),
+        episode('2024-03-02T18:00:00Z', b, 1, 1),
+      ]),
+      noRatings(),
+      new Map(),
+    )
+
+    expect(recap).toMatchObject({
+      plays: 6,
+      movies: 2,
+      shows: 2,
+      episodes: 3,
+      hours: 6,
+    })
+  })
+
+  test('tops rated movies and explicitly rated seasons, best first', () => {
+    const given = noRatings()
+    given.movies.set(7, 8)
+    given.movies.set(8, 10)
+    given.seasons.set('1-2', 9)
+    // A show rating alone does not make any of its seasons a top season
+    given.shows.set(2, 10)
+
+    const recap = buildRecap(
+      newestFirst([
+        watchedMovie('2024-01-05T18:00:00Z', movie(7)),
+        watchedMovie('2024-01-06T18:00:00Z', movie(8)),
+        watchedMovie('2024-01-07T18:00:00Z', movie(9)),
+        episode('2024-04-01T18:00:00Z', a, 1, 1),
+        episode('2024-04-02T18:00:00Z', a, 2, 1),
+        episode('2024-04-09T18:00:00Z', a, 2, 2),
+        episode('2024-04-03T18:00:00Z', b, 1, 1),
+      ]),
+      given,
+      new Map([
+        [
+          'a',
+          new Map([
+            [
+              2,
+              {
+                number: 2,
+                first_aired: '2022-01-01T00:00:00Z',
+                images: { poster: ['img/a-s2.jpg'] },
+              },
+            ],
+          ]),
+        ],
+      ]),
+    )
+
+    expect(recap.top_movies.map((item) => [item.title, item.rating])).toEqual([
+      ['movie-8', 10],
+      ['movie-7', 8],
+    ])
+    expect(recap.top_seasons).toEqual([
+      {
+        type: 'season',
+        title: 'a',
+        subtitle: 'Season 2',
+        year: 2022,
+        poster: 'https://img/a-s2.jpg',
+        watched_at: '2024-04-09',
+        trakt_url: 'https://trakt.tv/shows/a/seasons/2',
+        rating: 9,
+      },
+    ])
+  })
+
+  test('busiest month and longest binge go to the earliest on a tie', () => {
+    const recap = buildRecap(
+      newestFirst([
+        episode('2024-05-10T18:00:00Z', b, 1, 1),
+        episode('2024-05-10T19:00:00Z', b, 1, 2),
+        episode('2024-03-04T18:00:00Z', a, 1, 1),
+        episode('2024-03-04T19:00:00Z', a, 1, 2),
+      ]),
+      noRatings(),
+      new Map(),
+    )
+
+    expect(recap.busiest_month).toEqual({ month: '2024-03', plays: 2 })
+    expect(recap.longest_binge).toEqual({
+      title: 'a',
+      date: '2024-03-04',
+      episodes: 2,
+      trakt_url: 'https://trakt.tv/shows/a',
+    })
+  })
+
+  test('a binge is one Moscow day, not one UTC day', () => {
+    const recap = buildRecap(
+      newestFirst([
+        // 20:30Z is 23:30 in Moscow, 21:30Z already the next day there
+        episode('2024-03-04T20:30:00Z', a, 1, 1),
+        episode('2024-03-04T21:30:00Z', a, 1, 2),
+        episode('2024-03-04T22:30:00Z', a, 1, 3),
+      ]),
+      noRatings(),
+      new Map(),
+    )
+    expect(recap.longest_binge).toMatchObject({
+      date: '2024-03-05',
+      episodes: 2,
+    })
+  })
+
+  test('an empty year has no highlights', () => {
+    const recap = buildRecap([], noRatings(), new Map())
+    expect(recap.plays).toBe(0)
+    expect('busiest_month' in recap).toBe(false)
+    expect('longest_binge' in recap).toBe(false)
+  })
+})
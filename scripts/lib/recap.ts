@@ -0,0 +1,154 @@
+/**
+ * The year-in-review numbers of one archive file. Pure, like the shaping in
+ * watchlog.ts, and computed from the year's plays so a recap never depends on
+ * the live list.
+ */
+
+import { zonedDate } from '@/shared/lib/zoned-date'
+import type { WatchlogItem, YearRecap } from '@/features/watchlog/types'
+import {
+  buildShowUrl,
+  getPosterUrl,
+  type Ratings,
+  type TraktHistoryItem,
+  type TraktMovie,
+  type TraktSeason,
+  type TraktShow,
+} from './watchlog'
+
+// Cards per top list
+const TOP_LIMIT = 5
+
+interface Binge {
+  show: TraktShow
+  date: string
+  count: number
+}
+
+/** Plays newest first, as the archive stores them */
+export function buildRecap(
+  plays: TraktHistoryItem[],
+  ratings: Ratings,
+  seasonsMap: Map<string, Map<number, TraktSeason>>,
+): YearRecap {
+  const movies = new Map<number, { movie: TraktMovie; last: string }>()
+  const seasons = new Map<
+    string,
+    { show: TraktShow; season: number; last: string }
+  >()
+  const shows = new Set<number>()
+  const months = new Map<string, number>()
+  const days = new Map<string, Binge>()
+  let episodes = 0
+  let minutes = 0
+
+  // Oldest first, so every "earliest on a tie" is the first one counted
+  for (const play of [...plays].reverse()) {
+    const date = zonedDate(new Date(play.watched_at))
+    const month = date.slice(0, 7)
+    months.set(month, (months.get(month) ?? 0) + 1)
+
+    if (play.type === 'movie' && play.movie) {
+      movies.set(play.movie.ids.trakt, { movie: play.movie, last: date })
+      minutes += play.movie.runtime ?? 0
+    } else if (play.type === 'episode' && play.show && play.episode) {
+      const { show, episode } = play
+      shows.add(show.ids.trakt)
+      seasons.set(`${show.ids.trakt}-${episode.season}`, {
+        show,
+        season: episode.season,
+        last: date,
+      })
+      episodes++
+      minutes += episode.runtime ?? 0
+
+      const day = `${show.ids.trakt}|${date}`
+      const binge = days.get(day) ?? { show, date, count: 0 }
+      binge.count++
+      days.set(day, binge)
+    }
+  }
+
+  const topMovies = [...movies.values()].flatMap(
+    ({ movie, last }): WatchlogItem[] => {
+      const rating = ratings.movies.get(movie.ids.trakt)
+      if (!rating) return []
+      const poster = getPosterUrl(movie.images)
+      return [
+        {
+          type: 'movie',
+          title: movie.title,
+          year: movie.year,
+          ...(poster && { poster }),
+          watched_at: last,
+          trakt_url: `https://trakt.tv/movies/${movie.ids.slug}`,
+          rating,
+        },
+      ]
+    },
+  )
+
+  // Only seasons rated as seasons: a show's rating says nothing about which
+  const topSeasons = [...seasons.entries()].flatMap(
+    ([key, { show, season, last }]): WatchlogItem[] => {
+      const rating = ratings.seasons.get(key)
+      if (!rating) return []
+      const seasonData = seasonsMap.get(show.ids.slug)?.get(season)
+      const poster =
+        getPosterUrl(seasonData?.images) ?? getPosterUrl(show.images)
+      return [
+        {
+          type: 'season',
+          title: show.title,
+          subtitle: `Season ${season}`,
+          year: seasonData?.first_aired
+            ? Number(zonedDate(new Date(seasonData.first_aired)).slice(0, 4))
+            : show.year,
+          ...(poster && { poster }),
+          watched_at: last,
+          trakt_url: buildShowUrl(show.ids.slug, season),
+          rating,
+        },
+      ]
+    },
+  )
+
+  const busiest = [...months].reduce<[string, number] | undefined>(
+    (best, entry) => (!best || entry[1] > best[1] ? entry : best),
+    undefined,
+  )
+  const binge = [...days.values()].reduce<Binge | undefined>(
+    (best, entry) => (!best || entry.count > best.count ? entry : best),
+    undefined,
+  )
+
+  return {
+    plays: plays.length,
+    movies: movies.size,
+    shows: shows.size,
+    episodes,
+    hours: Math.round(minutes / 60),
+    top_movies: byRating(topMovies),
+    top_seasons: byRating(topSeasons),
+    ...(busiest && { busiest_month: { month: busiest[0], plays: busiest[1] } }),
+    ...(binge && {
+      longest_binge: {
+        title: binge.show.title,
+        date: binge.date,
+        episodes: binge.count,
+        trakt_url: `https://trakt.tv/shows/${binge.show.ids.slug}`,
+      },
+    }),
+  }
+}
+
+/** Best first, the later watch first among equals */
+function byRating(items: WatchlogItem[]): WatchlogItem[] {
+  return items
+    .sort(
+      (a, b) =>
+        (b.rating ?? 0) - (a.rating ?? 0) ||
+        b.watched_at.localeCompare(a.watched_at),
+    )
+    .slice(0, TOP_LIMIT)
+}
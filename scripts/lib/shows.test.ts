@@ -0,0 +1,145 @@
+import { describe, expect, test } from 'bun:test'
+import type { ShowDetail } from '@/features/watchlog/types'
+import { buildShows } from './shows'
+import type { TraktSeason } from './watchlog'
+import { episode, noRatings, show } from './test-builders'
+
+const seasons = (
+  slug: string,
+  ...list: TraktSeason[]
+): Map<string, Map<number, TraktSeason>> =>
+  new Map([[slug, new Map(list.map((s) => [s.number, s]))]])
+
+describe('buildShows', () => {
+  const a = show(1, 'a')
+  const b = show(2, 'b')
+
+  test('one entry per show, seasons in order, latest show first', () => {
+    const shows = buildShows(
+      [
+        episode('2024-03-01T10:00:00Z', a, 2, 1),
+        episode('2024-01-05T10:00:00Z', a, 1, 1),
+        episode('2024-01-06T10:00:00Z', a, 1, 2),
+        // A rewatch: one more play, not one more episode
+        episode('2024-02-01T10:00:00Z', a, 1, 1),
+        episode('2024-01-10T10:00:00Z', a, 1, 4),
+        episode('2024-02-10T10:00:00Z', b, 1, 1),
+        { id: 0, watched_at: '2024-05-01T10:00:00Z', type: 'movie' },
+      ],
+      noRatings(),
+      new Map(),
+      [],
+    )
+
+    expect(shows.map((s) => s.slug)).toEqual(['a', 'b'])
+    expect(shows[0]).toMatchObject({
+      trakt_url: 'https://trakt.tv/shows/a',
+      last_watched: '2024-03-01',
+    })
+    expect(shows[0].seasons).toEqual([
+      {
+        season: 1,
+        subtitle: 'S1 E1,2,4',
+        episodes: 3,
+        plays: 4,
+        first_watched: '2024-01-05',
+        last_watched: '2024-02-01',
+        trakt_url: 'https://trakt.tv/shows/a/seasons/1',
+      },
+      {
+        season: 2,
+        subtitle: 'S2 E1',
+        episodes: 1,
+        plays: 1,
+        first_watched: '2024-03-01',
+        last_watched: '2024-03-01',
+        trakt_url: 'https://trakt.tv/shows/a/seasons/2',
+      },
+    ])
+  })
+
+  test('ratings per show and per season', () => {
+    const given = noRatings()
+    given.shows.set(1, 8)
+    given.seasons.set('1-2', 9)
+    const [detail] = buildShows(
+      [
+        episode('2024-01-01T10:00:00Z', a, 1, 1),
+        episode('2024-01-02T10:00:00Z', a, 2, 1),
+      ],
+      given,
+      new Map(),
+      [],
+    )
+    expect(detail.rating).toBe(8)
+    expect(detail.seasons.map((s) => s.rating)).toEqual([undefined, 9])
+  })
+
+  test('season art from Trakt when fetched, else from the last file', () => {
+    const plays = [
+      episode('2024-01-01T10:00:00Z', a, 1, 1),
+      episode('2024-01-01T10:00:00Z', b, 1, 1),
+    ]
+    const previous = buildShows(
+      plays,
+      noRatings(),
+      new Map([
+        ...seasons('a', {
+          number: 1,
+          first_aired: '2019-04-01T01:00:00Z',
+          images: { poster: ['media.trakt.tv/a-1.jpg'] },
+        }),
+        ...seasons('b', {
+          number: 1,
+          images: { poster: ['media.trakt.tv/b-1.jpg'] },
+        }),
+      ]),
+      [],
+    )
+
+    // Only b's seasons fetched this time, with a new poster
+    const next = buildShows(
+      plays,
+      noRatings(),
+      seasons('b', {
+        number: 1,
+        images: { poster: ['media.trakt.tv/b-1-new.jpg'] },
+      }),
+      previous,
+    )
+    const season = (shows: ShowDetail[], slug: string) =>
+      shows.find((s) => s.slug === slug)?.seasons[0]
+
+    expect(season(next, 'a')).toMatchObject({
+      year: 2019,
+      poster: 'https://media.trakt.tv/a-1.jpg',
+    })
+    expect(season(next, 'b')?.poster).toBe('https://media.trakt.tv/b-1-new.jpg')
+  })
+
+  test('a failed season fetch keeps the art from the last file', () => {
+    const plays = [episode('2024-01-01T10:00:00Z', a, 1, 1)]
+    const previous = buildShows(
+      plays,
+      noRatings(),
+      seasons('a', {
+        number: 1,
+        first_aired: '2019-04-01T01:00:00Z',
+        images: { poster: ['media.trakt.tv/a-1.jpg'] },
+      }),
+      [],
+    )
+
+    // What getShowSeasons hands over when the request fails
+    const [detail] = buildShows(
+      plays,
+      noRatings(),
+      new Map([['a', new Map()]]),
+      previous,
+    )
+    expect(detail.seasons[0]).toMatchObject({
+      year: 2019,
+      poster: 'https://media.trakt.tv/a-1.jpg',
+    })
+  })
+})
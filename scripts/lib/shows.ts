@@ -0,0 +1,133 @@
+/**
+ * The show pages' data: every show in the archive with the seasons watched.
+ * Pure, like recap.ts, and computed from every archived play on each run.
+ * Season details come from Trakt only for the seasons a run fetched; every
+ * other one, a failed fetch's included, keeps what the previous file had.
+ */
+
+import { zonedDate } from '@/shared/lib/zoned-date'
+import type { SeasonDetail, ShowDetail } from '@/features/watchlog/types'
+import {
+  buildShowUrl,
+  formatEpisodeSubtitle,
+  getPosterUrl,
+  type Ratings,
+  type TraktHistoryItem,
+  type TraktSeason,
+  type TraktShow,
+} from './watchlog'
+
+interface SeasonPlays {
+  episodes: Set<number>
+  plays: number
+  first: string
+  last: string
+}
+
+/** Plays in any order; shows come out most recently watched first */
+export function buildShows(
+  plays: TraktHistoryItem[],
+  ratings: Ratings,
+  seasonsMap: Map<string, Map<number, TraktSeason>>,
+  previous: ShowDetail[],
+): ShowDetail[] {
+  const shows = new Map<
+    number,
+    { show: TraktShow; seasons: Map<number, SeasonPlays> }
+  >()
+
+  for (const play of plays) {
+    if (play.type !== 'episode' || !play.show || !play.episode) continue
+    const { show, episode } = play
+    const date = zonedDate(new Date(play.watched_at))
+
+    const entry = shows.get(show.ids.trakt) ?? { show, seasons: new Map() }
+    shows.set(show.ids.trakt, entry)
+    const season = entry.seasons.get(episode.season) ?? {
+      episodes: new Set(),
+      plays: 0,
+      first: date,
+      last: date,
+    }
+    entry.seasons.set(episode.season, season)
+
+    season.episodes.add(episode.number)
+    season.plays++
+    if (date < season.first) season.first = date
+    if (date > season.last) season.last = date
+  }
+
+  const known = new Map(previous.map((show) => [show.slug, show]))
+
+  return [...shows.values()]
+    .map(({ show, seasons }): ShowDetail => {
+      const { slug } = show.ids
+      const fetched = seasonsMap.get(slug)
+      const before = known.get(slug)
+      const poster = getPosterUrl(show.images)
+      const rating = ratings.shows.get(show.ids.trakt)
+
+      const details = [...seasons.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([number, season]): SeasonDetail => {
+          // A failed fetch leaves an empty map, which must not read as
+          // "no art" and wipe what the last file had
+          const fresh = fetched?.get(number)
+          const { year, poster } = fresh
+            ? fromTrakt(fresh)
+            : fromPrevious(before, number)
+          const rating = ratings.seasons.get(`${show.ids.trakt}-${number}`)
+          return {
+            season: number,
+            subtitle: formatEpisodeSubtitle(number, [...season.episodes]),
+            episodes: season.episodes.size,
+            plays: season.plays,
+            first_watched: season.first,
+            last_watched: season.last,
+            ...(year && { year }),
+            ...(poster && { poster }),
+            trakt_url: buildShowUrl(slug, number),
+            ...(rating && { rating }),
+          }
+        })
+
+      return {
+        slug,
+        title: show.title,
+        year: show.year,
+        ...(poster && { poster }),
+        trakt_url: `https://trakt.tv/shows/${slug}`,
+        ...(rating && { rating }),
+        last_watched: details.reduce(
+          (last, season) =>
+            season.last_watched > last ? season.last_watched : last,
+          '',
+        ),
+        seasons: details,
+      }
+    })
+    .sort(
+      (a, b) =>
+        b.last_watched.localeCompare(a.last_watched) ||
+        a.title.localeCompare(b.title),
+    )
+}
+
+function fromTrakt(
+  season?: TraktSeason,
+): Pick<SeasonDetail, 'year' | 'poster'> {
+  return {
+    year: season?.first_aired
+      ? Number(zonedDate(new Date(season.first_aired)).slice(0, 4))
+      : undefined,
+    poster: getPosterUrl(season?.images),
+  }
+}
+
+function fromPrevious(
+  show: ShowDetail | undefined,
+  number: number,
+): Pick<SeasonDetail, 'year' | 'poster'> {
+  const season = show?.seasons.find((s) => s.season === number)
+  return { year: season?.year, poster: season?.poster }
+}
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { changedFiles, createStorage, StorageConflictError } from './storage'
+
+const file = (revision: string) => ({
+  raw_url: `https://gist.githubusercontent.com/u/g/raw/${revision}/f`,
+})
+
+describe('changedFiles', () => {
+  test('names only the written files another writer touched', () => {
+    const read = { 'a.json': file('1'), 'b.json': file('2') }
+    const current = { 'a.json': file('1'), 'b.json': file('3') }
+    expect(changedFiles(read, current, ['a.json'])).toEqual([])
+    expect(changedFiles(read, current, ['a.json', 'b.json'])).toEqual([
+      'b.json',
+    ])
+  })
+
+  test('counts a file created or deleted since the read', () => {
+    expect(changedFiles({}, { 'a.json': file('1') }, ['a.json'])).toEqual([
+      'a.json',
+    ])
+    expect(changedFiles({ 'a.json': file('1') }, {}, ['a.json'])).toEqual([
+      'a.json',
+    ])
+    expect(changedFiles({}, {}, ['a.json'])).toEqual([])
+  })
+})
+
+describe('StorageConflictError', () => {
+  test('says what changed where', () => {
+    const error = new StorageConflictError('gist 123', ['a.json', 'b.atom'])
+    expect(error.message).toBe(
+      'Storage conflict: a.json, b.atom changed in gist 123 since this run read it',
+    )
+    expect(error.files).toEqual(['a.json', 'b.atom'])
+  })
+})
+
+describe('local storage', () => {
+  const realEnv = { ...process.env }
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'storage-'))
+    process.env.STORAGE_BACKEND = 'local'
+    process.env.STORAGE_DIR = dir
+  })
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    process.env = { ...realEnv }
+  })
+
+  test('refuses to replace a file changed since the read', async () => {
+    writeFileSync(path.join(dir, 'a.json'), '1')
+    const storage = createStorage()
+    expect(await storage.read('a.json')).toBe('1')
+    expect(await storage.read('b.json')).toBeUndefined()
+
+    writeFileSync(path.join(dir, 'a.json'), '2')
+    writeFileSync(path.join(dir, 'b.json'), '2')
+    const error = await storage
+      .write({ 'a.json': '3', 'b.json': '3' })
+      .catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(StorageConflictError)
+    expect(error).toMatchObject({ files: ['a.json', 'b.json'] })
+    expect(readFileSync(path.join(dir, 'a.json'), 'utf8')).toBe('2')
+  })
+
+  test('checks a second write against the first', async () => {
+    const storage = createStorage()
+    await storage.read('a.json')
+    await storage.write({ 'a.json': '1' })
+    await storage.write({ 'a.json': '2', 'unread.json': '2' })
+    expect(readFileSync(path.join(dir, 'a.json'), 'utf8')).toBe('2')
+  })
+})
@@ -0,0 +1,261 @@
+/**
+ * Where the sync scripts keep their output
+ *
+ * Every script reads and writes named text files through this interface, and
+ * STORAGE_BACKEND picks the implementation. The frontend makes the same pick
+ * in @/shared/lib/data-source, so a pipeline never writes one place and reads
+ * another.
+ *
+ * - gist: the public Gist, the default and what production runs on
+ * - local: a directory (STORAGE_DIR), for development and tests; the dev
+ *   server serves it at /data
+ * - repo: files committed under public/data through the contents API, served
+ *   from the Pages build
+ *
+ * A write refuses to replace a file that changed since this run read it,
+ * with a StorageConflictError: a manual run racing the cron would otherwise
+ * silently undo whatever the other one wrote.
+ */
+
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { optionalEnv, requireEnv } from './env'
+import {
+  createGitHubClient,
+  GitHubError,
+  type ContentEntry,
+  type GitHubClient,
+} from './github'
+
+// Must match the /data paths in @/shared/lib/data-source
+const REPO_DATA_DIR = 'public/data'
+const DEFAULT_LOCAL_DIR = 'data'
+
+export interface Storage {
+  /** Where the files live, for log lines */
+  readonly label: string
+  /**
+   * A directory on this machine. A run on it must leave the rest of GitHub
+   * alone too: no release uploads, no rotated secrets.
+   */
+  readonly local: boolean
+  /** Names of every stored file */
+  list(): Promise<string[]>
+  /** A file's content, undefined when there is no such file */
+  read(name: string): Promise<string | undefined>
+  /** Creates or replaces each file, in one write where the backend allows */
+  write(files: Record<string, string>): Promise<void>
+}
+
+/** Another writer changed `files` between this run's read and its write */
+export class StorageConflictError extends Error {
+  readonly files: string[]
+
+  constructor(label: string, files: string[]) {
+    super(
+      `Storage conflict: ${files.join(', ')} changed in ${label} since this run read it`,
+    )
+    this.name = 'StorageConflictError'
+    this.files = files
+  }
+}
+
+export function createStorage(
+  github: GitHubClient = createGitHubClient(),
+): Storage {
+  const backend = optionalEnv('STORAGE_BACKEND') ?? 'gist'
+  switch (backend) {
+    case 'gist':
+      return gistStorage(github, requireEnv('GIST_ID'))
+    case 'local':
+      return directoryStorage(optionalEnv('STORAGE_DIR') ?? DEFAULT_LOCAL_DIR)
+    case 'repo':
+      return repoStorage(github, requireEnv('GH_REPOSITORY'))
+    default:
+      throw new Error(
+        `Unknown STORAGE_BACKEND: ${backend} (gist, local or repo)`,
+      )
+  }
+}
+
+// ============================================================================
+// Gist
+// ============================================================================
+
+/** Written files whose revision differs between two reads of the Gist */
+export function changedFiles(
+  read: Record<string, { raw_url: string } | undefined>,
+  current: Record<string, { raw_url: string } | undefined>,
+  names: string[],
+): string[] {
+  return names.filter((name) => read[name]?.raw_url !== current[name]?.raw_url)
+}
+
+// A Gist PATCH takes no revision to check against, so the check is a fresh
+// read just before it: a writer landing between the two still wins, but that
+// window is a request long instead of a whole run
+function gistStorage(github: GitHubClient, gistId: string): Storage {
+  const label = `gist ${gistId}`
+  // One GET returns every file, so list and read share it
+  let snapshot: ReturnType<GitHubClient['getGist']> | undefined
+  const load = () => (snapshot ??= github.getGist(gistId))
+
+  return {
+    label,
+    local: false,
+
+    async list() {
+      return Object.keys((await load()).files)
+    },
+
+    async read(name) {
+      const file = (await load()).files[name]
+      if (!file) return undefined
+      if (!file.truncated) return file.content
+      return github.readGistFile(file)
+    },
+
+    async write(written) {
+      const read = await load()
+      const current = await github.getGist(gistId)
+      const readVersion = read.history[0]?.version
+      const currentVersion = current.history[0]?.version
+      if (currentVersion !== readVersion) {
+        const changed = changedFiles(
+          read.files,
+          current.files,
+          Object.keys(written),
+        )
+        if (changed.length > 0) {
+          throw new StorageConflictError(label, changed)
+        }
+        // Another script's files: a PATCH leaves those alone
+        console.log(
+          `Gist moved from ${readVersion?.slice(0, 7)} to ${currentVersion?.slice(0, 7)} since the read, none of the files written here`,
+        )
+      }
+
+      const updated = await github.updateGist(gistId, written)
+      // What a second write in the same run checks against
+      snapshot = Promise.resolve(updated)
+    },
+  }
+}
+
+// ============================================================================
+// Local Directory
+// ============================================================================
+
+// No revisions on disk, so the check compares each file with what this run
+// read of it; a file the run never read is written unchecked
+function directoryStorage(dir: string): Storage {
+  const root = path.resolve(dir)
+  const label = `directory ${root}`
+  // What each read returned, undefined for a missing file
+  const seen = new Map<string, string | undefined>()
+
+  const load = async (name: string) => {
+    try {
+      return await readFile(path.join(root, name), 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+      throw error
+    }
+  }
+
+  return {
+    label,
+    local: true,
+
+    async list() {
+      try {
+        return await readdir(root)
+      } catch (error) {
+        // No directory yet is an empty store, the way a fresh Gist is
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+        throw error
+      }
+    },
+
+    async read(name) {
+      const content = await load(name)
+      seen.set(name, content)
+      return content
+    },
+
+    async write(written) {
+      const changed: string[] = []
+      for (const name of Object.keys(written)) {
+        if (seen.has(name) && (await load(name)) !== seen.get(name)) {
+          changed.push(name)
+        }
+      }
+      if (changed.length > 0) throw new StorageConflictError(label, changed)
+
+      await mkdir(root, { recursive: true })
+      for (const [name, content] of Object.entries(written)) {
+        await writeFile(path.join(root, name), content)
+        // What a second write in the same run checks against
+        seen.set(name, content)
+      }
+    },
+  }
+}
+
+// ============================================================================
+// Repository File
+// ============================================================================
+
+// The contents API commits one file at a time, so unlike a Gist PATCH a run
+// that dies halfway leaves some files written. Each file stays valid on its
+// own, and the next run writes the rest.
+function repoStorage(github: GitHubClient, repository: string): Storage {
+  const label = `${repository}/${REPO_DATA_DIR}`
+  let entries: Promise<Map<string, ContentEntry>> | undefined
+
+  // The sha of every file is what an update must name, so the listing is kept
+  const load = () =>
+    (entries ??= github
+      .listContents(REPO_DATA_DIR)
+      .then((listing) => new Map(listing.map((entry) => [entry.name, entry]))))
+
+  return {
+    label,
+    local: false,
+
+    async list() {
+      return [...(await load()).keys()]
+    },
+
+    async read(name) {
+      if (!(await load()).has(name)) return undefined
+      return github.readContent(`${REPO_DATA_DIR}/${name}`)
+    },
+
+    async write(written) {
+      const known = await load()
+      for (const [name, content] of Object.entries(written)) {
+        try {
+          known.set(
+            name,
+            await github.putContent(`${REPO_DATA_DIR}/${name}`, {
+              message: `Sync ${name}`,
+              content,
+              sha: known.get(name)?.sha,
+            }),
+          )
+        } catch (error) {
+          // The sha read is the check: a file that moved on answers 409, one
+          // created since the listing 422 for the missing sha
+          if (
+            error instanceof GitHubError &&
+            (error.status === 409 || (error.status === 422 && !known.has(name)))
+          ) {
+            throw new StorageConflictError(label, [name])
+          }
+          throw error
+        }
+      }
+    },
+  }
+}
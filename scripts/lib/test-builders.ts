@@ -0,0 +1,72 @@
+/**
+ * Trakt rows for the scripts' tests, as small as the shaping code accepts.
+ * Every play gets an id of its own, the way Trakt numbers history rows.
+ */
+
+import type { Comments } from './comments'
+import type {
+  PlayLog,
+  Ratings,
+  TraktHistoryItem,
+  TraktMovie,
+  TraktShow,
+} from './watchlog'
+
+export const show = (trakt: number, slug = `show-${trakt}`): TraktShow => ({
+  title: slug,
+  year: 2020,
+  ids: { trakt, slug },
+  images: { poster: [`media.trakt.tv/${slug}.jpg`] },
+})
+
+export const movie = (trakt: number, runtime?: number): TraktMovie => ({
+  title: `movie-${trakt}`,
+  year: 2021,
+  ids: { trakt, slug: `movie-${trakt}` },
+  ...(runtime && { runtime }),
+})
+
+let nextId = 1
+
+export const episode = (
+  watchedAt: string,
+  of: TraktShow,
+  season: number,
+  number: number,
+  runtime?: number,
+): TraktHistoryItem => ({
+  id: nextId++,
+  watched_at: watchedAt,
+  type: 'episode',
+  show: of,
+  episode: { season, number, ...(runtime && { runtime }) },
+})
+
+export const watchedMovie = (
+  watchedAt: string,
+  of: TraktMovie,
+): TraktHistoryItem => ({
+  id: nextId++,
+  watched_at: watchedAt,
+  type: 'movie',
+  movie: of,
+})
+
+export const noRatings = (): Ratings => ({
+  movies: new Map(),
+  shows: new Map(),
+  seasons: new Map(),
+  episodes: new Map(),
+})
+
+export const noComments = (): Comments => ({
+  movies: new Map(),
+  shows: new Map(),
+  seasons: new Map(),
+  episodes: new Map(),
+})
+
+export const noPlays = (): PlayLog => ({
+  movies: new Map(),
+  episodes: new Map(),
+})
@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  openTokens,
+  refreshDue,
+  sealTokens,
+  tokenExpiry,
+  type StoredTokens,
+} from './trakt-tokens'
+
+const HOUR = 60 * 60 * 1000
+
+describe('tokenExpiry', () => {
+  test('adds the lifetime to the creation time, both in seconds', () => {
+    expect(
+      tokenExpiry({ created_at: 1_736_510_400, expires_in: 7 * 24 * 3600 }),
+    ).toBe('2025-01-17T12:00:00.000Z')
+  })
+})
+
+describe('refreshDue', () => {
+  const expiresAt = '2025-01-17T12:00:00.000Z'
+
+  test('turns due a margin before the expiry', () => {
+    const margin = 48 * HOUR
+    expect(
+      refreshDue(expiresAt, new Date('2025-01-15T11:59:59Z'), margin),
+    ).toBe(false)
+    expect(
+      refreshDue(expiresAt, new Date('2025-01-15T12:00:00Z'), margin),
+    ).toBe(true)
+    expect(
+      refreshDue(expiresAt, new Date('2025-02-01T00:00:00Z'), margin),
+    ).toBe(true)
+  })
+
+  test('leaves an unknown expiry to the probe', () => {
+    const now = new Date('2030-01-01T00:00:00Z')
+    expect(refreshDue(undefined, now, HOUR)).toBe(false)
+    expect(refreshDue('soon', now, HOUR)).toBe(false)
+  })
+})
+
+describe('recovery file', () => {
+  const tokens: StoredTokens = {
+    access_token: 'access',
+    refresh_token: 'refresh',
+    expires_at: '2025-01-17T12:00:00.000Z',
+  }
+
+  test('opens with the passphrase it was sealed with', () => {
+    const file = sealTokens(tokens, 'correct horse')
+    expect(file).not.toContain('refresh_token')
+    expect(openTokens(file, 'correct horse')).toEqual(tokens)
+  })
+
+  test('refuses a wrong passphrase', () => {
+    const file = sealTokens(tokens, 'correct horse')
+    expect(() => openTokens(file, 'battery staple')).toThrow()
+  })
+})
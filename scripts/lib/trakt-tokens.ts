@@ -0,0 +1,101 @@
+/**
+ * Trakt token lifetime and the recovery file for a rotation gone wrong.
+ * Refresh tokens are single-use: once Trakt hands out a new pair, the old
+ * refresh token is dead, so the new one must land somewhere durable before
+ * anything else can fail. The secrets are that somewhere when their update
+ * works; the recovery file, sealed with a passphrase since workflow
+ * artifacts are readable by anyone who can read the repository, when not.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from 'node:crypto'
+
+/** What the secrets hold, and the recovery file carries */
+export interface StoredTokens {
+  access_token: string
+  refresh_token: string
+  /** ISO timestamp; absent until the first refresh that recorded it */
+  expires_at?: string
+}
+
+/** `/oauth/token` answers in seconds: a lifetime from a creation time */
+export function tokenExpiry({
+  created_at,
+  expires_in,
+}: {
+  created_at: number
+  expires_in: number
+}): string {
+  return new Date((created_at + expires_in) * 1000).toISOString()
+}
+
+/**
+ * Whether to refresh without asking Trakt first. An expiry that does not
+ * parse counts as unknown, which leaves it to the 401 probe.
+ */
+export function refreshDue(
+  expiresAt: string | undefined,
+  now: Date,
+  marginMs: number,
+): boolean {
+  const expiry = expiresAt ? Date.parse(expiresAt) : NaN
+  if (Number.isNaN(expiry)) return false
+  return now.getTime() >= expiry - marginMs
+}
+
+// ============================================================================
+// Recovery File
+// ============================================================================
+
+interface SealedFile {
+  version: 1
+  salt: string
+  iv: string
+  tag: string
+  data: string
+}
+
+const keyFrom = (passphrase: string, salt: Buffer) =>
+  scryptSync(passphrase, salt, 32)
+
+/** AES-256-GCM under a scrypt key; the JSON is safe to publish as is */
+export function sealTokens(tokens: StoredTokens, passphrase: string): string {
+  const salt = randomBytes(16)
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', keyFrom(passphrase, salt), iv)
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(tokens), 'utf8'),
+    cipher.final(),
+  ])
+  const sealed: SealedFile = {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  }
+  return `${JSON.stringify(sealed, null, 2)}\n`
+}
+
+/** Throws on a wrong passphrase or a file that was tampered with */
+export function openTokens(file: string, passphrase: string): StoredTokens {
+  const sealed = JSON.parse(file) as SealedFile
+  if (sealed.version !== 1) {
+    throw new Error(`Unknown recovery file version: ${sealed.version}`)
+  }
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    keyFrom(passphrase, Buffer.from(sealed.salt, 'base64')),
+    Buffer.from(sealed.iv, 'base64'),
+  )
+  decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'))
+  const json = Buffer.concat([
+    decipher.update(Buffer.from(sealed.data, 'base64')),
+    decipher.final(),
+  ]).toString('utf8')
+  return JSON.parse(json) as StoredTokens
+}
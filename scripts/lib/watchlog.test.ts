@@ -0,0 +1,831 @@
+import { describe, expect, test } from 'bun:test'
+import { formatWatchedAtAuto } from '@/features/watchlog/lib/watched-date'
+import type { EpisodeType, WatchlogItem } from '@/features/watchlog/types'
+import {
+  calendarEvents,
+  collectPlays,
+  countDailyPlays,
+  enrichCalendar,
+  enrichItems,
+  enrichProgress,
+  enrichWatchlist,
+  formatEpisodeSubtitle,
+  groupCalendarEpisodes,
+  groupHistory,
+  toWatchlogStats,
+  watchedEntries,
+  type GroupedItem,
+  type TraktCalendarEpisode,
+  type TraktHistoryItem,
+  type TraktSeason,
+  type TraktShow,
+  type TraktStats,
+} from './watchlog'
+import {
+  episode,
+  movie,
+  noComments,
+  noPlays,
+  noRatings,
+  show,
+  watchedMovie,
+} from './test-builders'
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+/** Each group as `slug S<season> [episodes]`, the shape the cases assert */
+const summarize = (grouped: GroupedItem[]) =>
+  grouped.map((item) =>
+    item.type === 'movie'
+      ? item.movie.ids.slug
+      : `${item.group.show.ids.slug} S${item.group.season} [${item.group.episodes.join(',')}]`,
+  )
+
+const reference = new Date('2025-01-10T12:00:00Z')
+const live = (watchedAt: string) => formatWatchedAtAuto(watchedAt, reference)
+
+// ============================================================================
+// groupHistory
+// ============================================================================
+
+describe('groupHistory', () => {
+  const a = show(1, 'a')
+  const b = show(2, 'b')
+
+  test.each<[string, TraktHistoryItem[], string[]]>([
+    [
+      'consecutive episodes of one season share a card',
+      [
+        episode('2025-01-10T10:00:00Z', a, 1, 3),
+        episode('2025-01-10T09:00:00Z', a, 1, 2),
+        episode('2025-01-10T08:00:00Z', a, 1, 1),
+      ],
+      ['a S1 [3,2,1]'],
+    ],
+    [
+      'a season boundary splits the card',
+      [
+        episode('2025-01-10T10:00:00Z', a, 2, 1),
+        episode('2025-01-10T09:00:00Z', a, 1, 10),
+      ],
+      ['a S2 [1]', 'a S1 [10]'],
+    ],
+    [
+      'a movie in between splits the card',
+      [
+        episode('2025-01-10T10:00:00Z', a, 1, 2),
+        watchedMovie('2025-01-10T09:00:00Z', movie(9)),
+        episode('2025-01-10T08:00:00Z', a, 1, 1),
+      ],
+      ['a S1 [2]', 'movie-9', 'a S1 [1]'],
+    ],
+    [
+      'another show in between splits the card',
+      [
+        episode('2025-01-10T10:00:00Z', a, 1, 2),
+        episode('2025-01-10T09:00:00Z', b, 1, 1),
+        episode('2025-01-10T08:00:00Z', a, 1, 1),
+      ],
+      ['a S1 [2]', 'b S1 [1]', 'a S1 [1]'],
+    ],
+    [
+      'non-consecutive episodes still group',
+      [
+        episode('2025-01-10T10:00:00Z', a, 1, 5),
+        episode('2025-01-10T09:00:00Z', a, 1, 3),
+        episode('2025-01-10T08:00:00Z', a, 1, 1),
+      ],
+      ['a S1 [5,3,1]'],
+    ],
+    [
+      'two days inside the day window are two periods',
+      [
+        episode('2025-01-09T10:00:00Z', a, 1, 2),
+        episode('2025-01-08T10:00:00Z', a, 1, 1),
+      ],
+      ['a S1 [2]', 'a S1 [1]'],
+    ],
+    [
+      'two days of one ISO week, past the day window, are one period',
+      [
+        episode('2024-12-27T10:00:00Z', a, 1, 2),
+        episode('2024-12-24T10:00:00Z', a, 1, 1),
+      ],
+      ['a S1 [2,1]'],
+    ],
+    [
+      'Moscow midnight separates days that share a UTC date',
+      [
+        episode('2025-01-08T21:30:00Z', a, 1, 2),
+        episode('2025-01-08T20:30:00Z', a, 1, 1),
+      ],
+      ['a S1 [2]', 'a S1 [1]'],
+    ],
+  ])('%s', (_, history, expected) => {
+    expect(summarize(groupHistory(history, live))).toEqual(expected)
+  })
+
+  test('keeps the most recent timestamp of a group', () => {
+    const [item] = groupHistory(
+      [
+        episode('2025-01-10T10:00:00Z', a, 1, 2),
+        episode('2025-01-10T09:00:00Z', a, 1, 1),
+      ],
+      live,
+    )
+    expect(item.type === 'season' && item.group.watched_at).toBe(
+      '2025-01-10T10:00:00Z',
+    )
+  })
+
+  test('the archive period groups a whole month', () => {
+    const month = (watchedAt: string) => watchedAt.slice(0, 7)
+    const history = [
+      episode('2023-05-30T10:00:00Z', a, 1, 2),
+      episode('2023-05-02T10:00:00Z', a, 1, 1),
+      episode('2023-04-29T10:00:00Z', a, 1, 0),
+    ]
+    expect(summarize(groupHistory(history, month))).toEqual([
+      'a S1 [2,1]',
+      'a S1 [0]',
+    ])
+  })
+})
+
+// ============================================================================
+// enrichItems
+// ============================================================================
+
+describe('enrichItems', () => {
+  const a = show(1, 'a')
+  const label = (watchedAt: string) => watchedAt.slice(0, 10)
+
+  test('a single episode rates by episode, then season, then show', () => {
+    const grouped = groupHistory(
+      [episode('2025-01-10T10:00:00Z', a, 2, 4)],
+      live,
+    )
+    const ratings = noRatings()
+    ratings.shows.set(1, 6)
+    expect(
+      enrichItems(
+        grouped,
+        new Map(),
+        ratings,
+        noComments(),
+        noPlays(),
+        label,
+      )[0].rating,
+    ).toBe(6)
+
+    ratings.seasons.set('1-2', 7)
+    expect(
+      enrichItems(
+        grouped,
+        new Map(),
+        ratings,
+        noComments(),
+        noPlays(),
+        label,
+      )[0].rating,
+    ).toBe(7)
+
+    ratings.episodes.set('1-2-4', 9)
+    const [item] = enrichItems(
+      grouped,
+      new Map(),
+      ratings,
+      noComments(),
+      noPlays(),
+      label,
+    )
+    expect(item).toMatchObject({
+      type: 'episode',
+      subtitle: 'S2 E4',
+      rating: 9,
+      watched_at: '2025-01-10',
+      trakt_url: 'https://trakt.tv/shows/a/seasons/2/episodes/4',
+    })
+  })
+
+  test('a group becomes a season card rated by season, never by episode', () => {
+    const grouped = groupHistory(
+      [
+        episode('2025-01-10T10:00:00Z', a, 1, 2),
+        episode('2025-01-10T09:00:00Z', a, 1, 1),
+      ],
+      live,
+    )
+    const ratings = noRatings()
+    ratings.episodes.set('1-1-1', 10)
+    ratings.shows.set(1, 5)
+
+    const [item] = enrichItems(
+      grouped,
+      new Map(),
+      ratings,
+      noComments(),
+      noPlays(),
+      label,
+    )
+    expect(item).toMatchObject({
+      type: 'season',
+      subtitle: 'S1 E1-2',
+      rating: 5,
+      trakt_url: 'https://trakt.tv/shows/a/seasons/1',
+    })
+  })
+
+  test('season data wins for poster and year, in the Moscow zone', () => {
+    const seasons = new Map<string, Map<number, TraktSeason>>([
+      [
+        'a',
+        new Map([
+          [
+            3,
+            {
+              number: 3,
+              // 01:00 on Jan 1 in Moscow, still Dec 31 in UTC
+              first_aired: '2019-12-31T22:00:00Z',
+              images: { poster: ['https://img/season.jpg'] },
+            },
+          ],
+        ]),
+      ],
+    ])
+    const grouped = groupHistory(
+      [episode('2025-01-10T10:00:00Z', a, 3, 1)],
+      live,
+    )
+
+    const [item] = enrichItems(
+      grouped,
+      seasons,
+      noRatings(),
+      noComments(),
+      noPlays(),
+      label,
+    )
+    expect(item.year).toBe(2020)
+    expect(item.poster).toBe('https://img/season.jpg')
+  })
+
+  test('falls back to the show poster and prefixes a bare host', () => {
+    const grouped = groupHistory(
+      [episode('2025-01-10T10:00:00Z', a, 1, 1)],
+      live,
+    )
+    const [item] = enrichItems(
+      grouped,
+      new Map(),
+      noRatings(),
+      noComments(),
+      noPlays(),
+      label,
+    )
+    expect(item.poster).toBe('https://media.trakt.tv/a.jpg')
+    expect(item.year).toBe(2020)
+  })
+
+  test('a movie carries its own rating and no rating key when unrated', () => {
+    const grouped = groupHistory(
+      [
+        watchedMovie('2025-01-10T10:00:00Z', movie(7)),
+        watchedMovie('2025-01-09T10:00:00Z', movie(8)),
+      ],
+      live,
+    )
+    const ratings = noRatings()
+    ratings.movies.set(7, 8)
+
+    const [rated, unrated] = enrichItems(
+      grouped,
+      new Map(),
+      ratings,
+      noComments(),
+      noPlays(),
+      label,
+    )
+    expect(rated).toMatchObject({ type: 'movie', rating: 8 })
+    expect('rating' in unrated).toBe(false)
+  })
+
+  test('comments fall back like ratings, and only to the season card', () => {
+    const grouped = groupHistory(
+      [
+        episode('2025-01-10T10:00:00Z', a, 2, 4),
+        episode('2025-01-09T10:00:00Z', a, 1, 2),
+        episode('2025-01-09T09:00:00Z', a, 1, 1),
+      ],
+      live,
+    )
+    const note = (excerpt: string) => ({
+      kind: 'shout' as const,
+      excerpt,
+      spoiler: false,
+      url: 'https://trakt.tv/comments/1',
+    })
+    const comments = noComments()
+    comments.shows.set(1, note('show'))
+    comments.episodes.set('1-2-4', note('episode'))
+    comments.episodes.set('1-1-1', note('not on the card'))
+
+    const [single, season] = enrichItems(
+      grouped,
+      new Map(),
+      noRatings(),
+      comments,
+      noPlays(),
+      label,
+    )
+    expect(single.comment?.excerpt).toBe('episode')
+    expect(season.comment?.excerpt).toBe('show')
+  })
+
+  test('a rewatched movie counts its plays up to the card', () => {
+    const m = movie(7)
+    const history = [
+      watchedMovie('2025-01-10T10:00:00Z', m),
+      watchedMovie('2024-06-01T10:00:00Z', m),
+      watchedMovie('2023-02-01T10:00:00Z', m),
+    ]
+    const log = collectPlays(history)
+
+    const [latest, second, first] = enrichItems(
+      groupHistory(history, live),
+      new Map(),
+      noRatings(),
+      noComments(),
+      log,
+      label,
+    )
+    expect(latest.plays).toBe(3)
+    expect(second.plays).toBe(2)
+    // The first watch is no rewatch, however often it was played since
+    expect('plays' in first).toBe(false)
+  })
+
+  test('a season card counts its least played episode', () => {
+    const history = [
+      episode('2025-01-10T11:00:00Z', a, 1, 2),
+      episode('2025-01-10T10:00:00Z', a, 1, 1),
+      episode('2024-03-02T10:00:00Z', a, 1, 2),
+      episode('2024-03-01T10:00:00Z', a, 1, 1),
+      episode('2023-05-01T10:00:00Z', a, 1, 1),
+    ]
+    const [second, first] = enrichItems(
+      groupHistory(history, live),
+      new Map(),
+      noRatings(),
+      noComments(),
+      collectPlays(history),
+      label,
+    )
+    // Episode 1 is on its third play, episode 2 on its second
+    expect(second).toMatchObject({ subtitle: 'S1 E1-2', plays: 2 })
+    expect('plays' in first).toBe(false)
+  })
+})
+
+describe('collectPlays', () => {
+  test('keys plays like the ratings, oldest first', () => {
+    const a = show(1, 'a')
+    const log = collectPlays([
+      episode('2025-01-10T10:00:00Z', a, 2, 4),
+      watchedMovie('2025-01-09T10:00:00Z', movie(7)),
+      episode('2024-01-10T10:00:00Z', a, 2, 4),
+    ])
+    expect(log.episodes.get('1-2-4')).toEqual([
+      '2024-01-10T10:00:00Z',
+      '2025-01-10T10:00:00Z',
+    ])
+    expect(log.movies.get(7)).toEqual(['2025-01-09T10:00:00Z'])
+  })
+})
+
+// ============================================================================
+// Calendar
+// ============================================================================
+
+const airing = (
+  firstAired: string,
+  of: TraktShow,
+  season: number,
+  number: number,
+  episodeType: EpisodeType = 'standard',
+): TraktCalendarEpisode => ({
+  first_aired: firstAired,
+  show: of,
+  episode: { season, number, episode_type: episodeType },
+})
+
+describe('formatEpisodeSubtitle', () => {
+  test.each<[number, number[], string]>([
+    [1, [3], 'S1 E3'],
+    [2, [1, 2, 3], 'S2 E1-3'],
+    [2, [3, 1, 2], 'S2 E1-3'],
+    [1, [5, 4], 'S1 E4-5'],
+    [1, [1, 3, 5], 'S1 E1,3,5'],
+    [4, [9, 1, 2], 'S4 E1,2,9'],
+  ])('S%i %j -> %s', (season, episodes, expected) => {
+    expect(formatEpisodeSubtitle(season, episodes)).toBe(expected)
+  })
+})
+
+describe('groupCalendarEpisodes', () => {
+  const a = show(1, 'a')
+
+  test('one card per show, season and Moscow date', () => {
+    const groups = groupCalendarEpisodes([
+      airing('2025-02-01T01:00:00Z', a, 1, 1),
+      airing('2025-02-01T02:00:00Z', a, 1, 2),
+      // 21:00Z is the next Moscow day
+      airing('2025-02-01T21:00:00Z', a, 1, 3),
+      airing('2025-02-01T01:00:00Z', a, 2, 1),
+    ])
+    expect(
+      groups.map((g) => `${g.date} S${g.season} [${g.episodes.join(',')}]`),
+    ).toEqual(['2025-02-01 S1 [1,2]', '2025-02-02 S1 [3]', '2025-02-01 S2 [1]'])
+  })
+
+  test.each<[EpisodeType[], EpisodeType]>([
+    [['standard', 'season_finale'], 'season_finale'],
+    [['season_premiere', 'standard'], 'season_premiere'],
+    [['series_premiere', 'mid_season_finale'], 'mid_season_finale'],
+    [['season_finale', 'series_finale'], 'series_finale'],
+    [['mid_season_premiere', 'season_premiere'], 'season_premiere'],
+    [['standard', 'standard'], 'standard'],
+  ])('%j keeps %s', (types, expected) => {
+    const [group] = groupCalendarEpisodes(
+      types.map((type, i) => airing('2025-02-01T10:00:00Z', a, 1, i + 1, type)),
+    )
+    expect(group.episode_type).toBe(expected)
+  })
+})
+
+describe('enrichCalendar', () => {
+  const a = show(1, 'a')
+
+  test('trims the day-back margin, keeps today, sorts by date', () => {
+    const items = enrichCalendar(
+      {
+        episodes: [
+          airing('2025-01-12T10:00:00Z', a, 1, 3),
+          // Fetched because the window starts a day back, dropped here
+          airing('2025-01-09T10:00:00Z', a, 1, 1),
+          // Jan 9 in UTC, already Jan 10 - today - in Moscow
+          airing('2025-01-09T21:30:00Z', a, 1, 2, 'season_premiere'),
+        ],
+        movies: [
+          { released: '2025-01-11', movie: movie(5) },
+          { released: '2025-01-09', movie: movie(6) },
+        ],
+      },
+      new Map(),
+      '2025-01-10',
+    )
+
+    expect(
+      items.map((item) => `${item.date} ${item.subtitle ?? item.title}`),
+    ).toEqual(['2025-01-10 S1 E2', '2025-01-11 movie-5', '2025-01-12 S1 E3'])
+    expect(items[0]).toMatchObject({
+      type: 'episode',
+      episode_type: 'season_premiere',
+      trakt_url: 'https://trakt.tv/shows/a/seasons/1/episodes/2',
+    })
+  })
+
+  test('several episodes on one day become a season card', () => {
+    const [item] = enrichCalendar(
+      {
+        episodes: [
+          airing('2025-01-12T10:00:00Z', a, 2, 1),
+          airing('2025-01-12T11:00:00Z', a, 2, 2),
+        ],
+        movies: [],
+      },
+      new Map(),
+      '2025-01-10',
+    )
+    expect(item).toMatchObject({
+      type: 'season',
+      subtitle: 'S2 E1-2',
+      trakt_url: 'https://trakt.tv/shows/a/seasons/2',
+    })
+  })
+})
+
+describe('calendarEvents', () => {
+  const a = show(1, 'a')
+
+  test('UIDs follow the Trakt page, season cards add their date', () => {
+    const events = calendarEvents(
+      enrichCalendar(
+        {
+          episodes: [
+            airing('2025-01-12T10:00:00Z', a, 1, 1, 'season_premiere'),
+            airing('2025-01-14T10:00:00Z', a, 1, 2),
+            airing('2025-01-14T11:00:00Z', a, 1, 3),
+          ],
+          movies: [{ released: '2025-01-11', movie: movie(5) }],
+        },
+        new Map(),
+        '2025-01-10',
+      ),
+    )
+
+    expect(
+      events.map(({ uid, start, summary }) => [uid, start, summary]),
+    ).toEqual([
+      ['movies/movie-5@trakt.tv', '2025-01-11', 'movie-5'],
+      [
+        'shows/a/seasons/1/episodes/1@trakt.tv',
+        '2025-01-12',
+        'a S1 E1 · Season Premiere',
+      ],
+      ['shows/a/seasons/1/2025-01-14@trakt.tv', '2025-01-14', 'a S1 E2-3'],
+    ])
+  })
+})
+
+// ============================================================================
+// Watchlist
+// ============================================================================
+
+describe('enrichWatchlist', () => {
+  const a = show(1, 'a')
+
+  test('orders by when a title was listed, newest first', () => {
+    const items = enrichWatchlist([
+      { listed_at: '2024-03-01T10:00:00.000Z', type: 'show', show: a },
+      {
+        listed_at: '2024-05-01T10:00:00.000Z',
+        type: 'movie',
+        movie: { ...movie(3), released: '2024-04-12' },
+      },
+      {
+        listed_at: '2024-04-01T10:00:00.000Z',
+        type: 'season',
+        show: a,
+        season: { number: 2, images: { poster: ['img/a-s2.jpg'] } },
+      },
+      {
+        listed_at: '2024-02-01T10:00:00.000Z',
+        type: 'episode',
+        show: a,
+        episode: { season: 1, number: 4 },
+      },
+    ])
+
+    expect(
+      items.map((item) => [item.type, item.subtitle, item.trakt_url]),
+    ).toEqual([
+      ['movie', undefined, 'https://trakt.tv/movies/movie-3'],
+      ['season', 'Season 2', 'https://trakt.tv/shows/a/seasons/2'],
+      ['show', undefined, 'https://trakt.tv/shows/a'],
+      ['episode', 'S1 E4', 'https://trakt.tv/shows/a/seasons/1/episodes/4'],
+    ])
+    expect(items[0].released).toBe('2024-04-12')
+    expect(items[1].poster).toBe('https://img/a-s2.jpg')
+    expect(items[2].poster).toBe('https://media.trakt.tv/a.jpg')
+  })
+
+  test('leaves out what Trakt has not dated yet', () => {
+    const [item] = enrichWatchlist([
+      {
+        listed_at: '2024-05-01T10:00:00.000Z',
+        type: 'movie',
+        movie: { ...movie(4), year: 0, released: null },
+      },
+    ])
+    expect('year' in item).toBe(false)
+    expect('released' in item).toBe(false)
+  })
+})
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+describe('enrichProgress', () => {
+  const a = show(1, 'a')
+  const b = show(2, 'b')
+
+  test('drops caught-up shows and points at the next episode', () => {
+    const seasons = new Map([
+      [
+        'a',
+        new Map([[3, { number: 3, images: { poster: ['img/a-s3.jpg'] } }]]),
+      ],
+    ])
+    const progress = enrichProgress(
+      [
+        {
+          watched: { last_watched_at: '2025-01-10T10:00:00.000Z', show: a },
+          progress: {
+            aired: 24,
+            completed: 20,
+            next_episode: { season: 3, number: 5, title: 'Cold Open' },
+          },
+        },
+        {
+          watched: { last_watched_at: '2025-01-09T10:00:00.000Z', show: b },
+          progress: { aired: 8, completed: 8, next_episode: null },
+        },
+      ],
+      seasons,
+    )
+
+    expect(progress).toEqual([
+      {
+        title: 'a',
+        poster: 'https://img/a-s3.jpg',
+        trakt_url: 'https://trakt.tv/shows/a',
+        aired: 24,
+        completed: 20,
+        next_episode: {
+          subtitle: 'S3 E5',
+          title: 'Cold Open',
+          trakt_url: 'https://trakt.tv/shows/a/seasons/3/episodes/5',
+        },
+        last_watched_at: '2025-01-10T10:00:00.000Z',
+      },
+    ])
+  })
+
+  test('falls back to the show poster and an untitled episode', () => {
+    const [entry] = enrichProgress(
+      [
+        {
+          watched: { last_watched_at: '2025-01-10T10:00:00.000Z', show: b },
+          progress: {
+            aired: 10,
+            completed: 1,
+            next_episode: { season: 1, number: 2, title: null },
+          },
+        },
+      ],
+      new Map(),
+    )
+    expect(entry.poster).toBe('https://media.trakt.tv/b.jpg')
+    expect('title' in entry.next_episode).toBe(false)
+  })
+})
+
+// ============================================================================
+// Stats
+// ============================================================================
+
+describe('toWatchlogStats', () => {
+  const counts = { plays: 0, watched: 0, minutes: 0, collected: 0 }
+  const traktStats = (
+    movieMinutes: number,
+    episodeMinutes: number,
+    distribution: Record<string, number> = {},
+  ): TraktStats => ({
+    movies: { ...counts, minutes: movieMinutes, comments: 1 },
+    shows: { watched: 0, comments: 2 },
+    seasons: { comments: 3 },
+    episodes: { ...counts, minutes: episodeMinutes, comments: 4 },
+    ratings: { distribution },
+  })
+
+  test('maps the counts and adds up comments across every kind', () => {
+    const stats = toWatchlogStats({
+      ...traktStats(0, 0),
+      movies: {
+        plays: 12,
+        watched: 10,
+        minutes: 0,
+        collected: 3,
+        comments: 1,
+      },
+      shows: { watched: 5, comments: 2 },
+      episodes: {
+        plays: 240,
+        watched: 200,
+        minutes: 0,
+        collected: 7,
+        comments: 4,
+      },
+    })
+    expect(stats).toMatchObject({
+      movies_watched: 10,
+      shows_watched: 5,
+      extended: {
+        episodes_watched: 200,
+        movie_plays: 12,
+        episode_plays: 240,
+        movies_collected: 3,
+        episodes_collected: 7,
+        comments: 10,
+      },
+    })
+  })
+
+  // The total is rounded once, so it need not equal the sides' sum
+  test.each<[number, number, number, number, number]>([
+    [0, 0, 0, 0, 0],
+    [89, 0, 1, 1, 0],
+    [90, 90, 3, 2, 2],
+    [29, 29, 1, 0, 0],
+    [6000, 30, 101, 100, 1],
+  ])(
+    '%i + %i minutes: %i hours, %i movie, %i episode',
+    (movieMinutes, episodeMinutes, total, movie, episode) => {
+      const stats = toWatchlogStats(traktStats(movieMinutes, episodeMinutes))
+      expect(stats.total_hours).toBe(total)
+      expect(stats.extended?.movie_hours).toBe(movie)
+      expect(stats.extended?.episode_hours).toBe(episode)
+    },
+  )
+
+  test('fills ratings 1 to 10 into ten slots, missing scores as zero', () => {
+    const stats = toWatchlogStats(
+      traktStats(0, 0, { '1': 2, '7': 5, '10': 1, '0': 9 }),
+    )
+    expect(stats.extended?.ratings).toEqual([2, 0, 0, 0, 0, 0, 5, 0, 0, 1])
+    expect(toWatchlogStats(traktStats(0, 0)).extended?.ratings).toEqual(
+      Array(10).fill(0),
+    )
+  })
+})
+
+// ============================================================================
+// Activity
+// ============================================================================
+
+describe('countDailyPlays', () => {
+  const a = show(1, 'a')
+
+  test('counts by Moscow day within the window, zeros included', () => {
+    const activity = countDailyPlays(
+      [
+        episode('2025-01-10T09:00:00Z', a, 1, 3),
+        // Still Jan 9 in UTC, Jan 10 in Moscow
+        episode('2025-01-09T21:30:00Z', a, 1, 2),
+        episode('2025-01-08T12:00:00Z', a, 1, 1),
+        // Before the window
+        episode('2025-01-07T12:00:00Z', a, 1, 0),
+      ],
+      '2025-01-10',
+      3,
+    )
+    expect(activity).toEqual({ from: '2025-01-08', counts: [1, 0, 2] })
+  })
+})
+
+// ============================================================================
+// Feed
+// ============================================================================
+
+describe('watchedEntries', () => {
+  const card = (
+    watched_at: string,
+    subtitle?: string,
+    extra: Partial<WatchlogItem> = {},
+  ): WatchlogItem => ({
+    type: subtitle ? 'season' : 'movie',
+    title: 'a',
+    ...(subtitle && { subtitle }),
+    year: 2020,
+    watched_at,
+    trakt_url: 'https://trakt.tv/shows/a/seasons/1',
+    ...extra,
+  })
+  const now = '2025-01-10T12:00:00.000Z'
+
+  test('only cards the last payload lacked, never a coarsened label', () => {
+    const previous = [card('2025-01-09', 'S1 E1'), card('2025-01-03', 'S1 E2')]
+    const next = [
+      card('2025-01-10', 'S1 E3', { rating: 8, poster: 'https://p/a.jpg' }),
+      card('2025-01-09', 'S1 E1'),
+      // The same play a week on: a new label, not a new play
+      card('2025-W01', 'S1 E2'),
+    ]
+    expect(watchedEntries(previous, next, now)).toEqual([
+      {
+        id: 'https://trakt.tv/shows/a/seasons/1#2025-01-10',
+        title: 'a S1 E3',
+        link: 'https://trakt.tv/shows/a/seasons/1',
+        updated: now,
+        summary: 'Rated 8/10',
+        enclosure: 'https://p/a.jpg',
+      },
+    ])
+  })
+
+  test('a season card grown the same day keeps its id', () => {
+    const [entry] = watchedEntries(
+      [card('2025-01-10', 'S1 E1')],
+      [card('2025-01-10', 'S1 E1-2')],
+      now,
+    )
+    expect(entry).toMatchObject({
+      id: 'https://trakt.tv/shows/a/seasons/1#2025-01-10',
+      title: 'a S1 E1-2',
+    })
+  })
+})
@@ -0,0 +1,759 @@
+/**
+ * Watchlog shaping: Trakt history and calendar rows in, the cards the
+ * frontend renders out. Pure functions over plain data, no requests, so the
+ * grouping rules can be tested without Trakt.
+ */
+
+import { shiftDate, zonedDate } from '@/shared/lib/zoned-date'
+import { EPISODE_TYPE_LABELS } from '@/features/watchlog/lib/episode-types'
+import type {
+  CalendarItem,
+  EpisodeType,
+  ShowProgress,
+  WatchlistItem,
+  WatchlogActivity,
+  WatchlogItem,
+  WatchlogStats,
+} from '@/features/watchlog/types'
+import type { AtomEntry } from './atom'
+import type { Comments } from './comments'
+import type { IcalEvent } from './ical'
+
+// ============================================================================
+// Trakt API Types
+// ============================================================================
+
+export interface TraktIds {
+  trakt: number
+  slug: string
+}
+
+export interface TraktImages {
+  poster?: string[]
+}
+
+export interface TraktMovie {
+  title: string
+  year: number
+  ids: TraktIds
+  images?: TraktImages
+  /** YYYY-MM-DD, with `extended=full` only */
+  released?: string | null
+  /** Minutes, with `extended=full` only */
+  runtime?: number | null
+}
+
+export interface TraktShow {
+  title: string
+  year: number
+  ids: TraktIds
+  images?: TraktImages
+}
+
+export interface TraktEpisode {
+  season: number
+  number: number
+  /** Minutes, with `extended=full` only */
+  runtime?: number | null
+}
+
+export interface TraktSeason {
+  number: number
+  first_aired?: string
+  images?: TraktImages
+}
+
+export interface TraktHistoryItem {
+  /** Unique per play, which is what dedupes overlapping archive pages */
+  id: number
+  watched_at: string
+  type: 'movie' | 'episode'
+  movie?: TraktMovie
+  show?: TraktShow
+  episode?: TraktEpisode
+}
+
+export interface TraktCalendarEpisode {
+  first_aired: string
+  episode: { season: number; number: number; episode_type: EpisodeType }
+  show: TraktShow
+}
+
+export interface TraktCalendarMovie {
+  released: string
+  movie: TraktMovie
+}
+
+export interface TraktWatchedShow {
+  last_watched_at: string
+  show: TraktShow
+}
+
+export interface TraktShowProgress {
+  aired: number
+  completed: number
+  /** null once caught up with what has aired */
+  next_episode: (TraktEpisode & { title?: string | null }) | null
+}
+
+export interface TraktWatchlistItem {
+  listed_at: string
+  type: 'movie' | 'show' | 'season' | 'episode'
+  movie?: TraktMovie
+  show?: TraktShow
+  season?: TraktSeason
+  episode?: TraktEpisode
+}
+
+export interface TraktStatsCounts {
+  plays: number
+  watched: number
+  minutes: number
+  collected: number
+  comments: number
+}
+
+export interface TraktStats {
+  movies: TraktStatsCounts
+  shows: { watched: number; comments: number }
+  seasons: { comments: number }
+  episodes: TraktStatsCounts
+  /** Keyed "1".."10"; a score nobody gave may be missing */
+  ratings: { distribution: Record<string, number> }
+}
+
+// ============================================================================
+// Internal Types
+// ============================================================================
+
+export interface Ratings {
+  movies: Map<number, number>
+  shows: Map<number, number>
+  seasons: Map<string, number>
+  episodes: Map<string, number>
+}
+
+/** Every play's timestamp, oldest first, keyed like the ratings */
+export interface PlayLog {
+  movies: Map<number, string[]>
+  episodes: Map<string, string[]>
+}
+
+export interface GroupedSeason {
+  show: TraktShow
+  season: number
+  episodes: number[]
+  watched_at: string
+}
+
+export type GroupedItem =
+  | { type: 'movie'; movie: TraktMovie; watched_at: string }
+  | { type: 'season'; group: GroupedSeason }
+
+export interface RecentShow {
+  watched: TraktWatchedShow
+  progress: TraktShowProgress
+}
+
+export interface RawCalendar {
+  episodes: TraktCalendarEpisode[]
+  movies: TraktCalendarMovie[]
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function getPosterUrl(images?: TraktImages): string | undefined {
+  const poster = images?.poster?.[0]
+  if (!poster) return undefined
+  return poster.startsWith('http') ? poster : `https://${poster}`
+}
+
+export function buildShowUrl(
+  slug: string,
+  season: number,
+  episode?: number,
+): string {
+  const base = `https://trakt.tv/shows/${slug}/seasons/${season}`
+  return episode ? `${base}/episodes/${episode}` : base
+}
+
+// ============================================================================
+// Grouping Logic
+// ============================================================================
+
+/**
+ * `periodOf` decides how far apart two plays of a season may lie and still
+ * share a card: the live list uses the same coarsened date it displays, the
+ * archive a calendar month.
+ */
+export function groupHistory(
+  history: TraktHistoryItem[],
+  periodOf: (watchedAt: string) => string,
+): GroupedItem[] {
+  const items: GroupedItem[] = []
+  let currentGroup: GroupedSeason | undefined
+
+  for (const item of history) {
+    if (item.type === 'movie' && item.movie) {
+      if (currentGroup) {
+        items.push({ type: 'season', group: currentGroup })
+        currentGroup = undefined
+      }
+      items.push({
+        type: 'movie',
+        movie: item.movie,
+        watched_at: item.watched_at,
+      })
+    } else if (item.type === 'episode' && item.show && item.episode) {
+      const showId = item.show.ids.trakt
+      const season = item.episode.season
+
+      const currentPeriod = periodOf(item.watched_at)
+      const isSameGroup =
+        currentGroup &&
+        currentGroup.show.ids.trakt === showId &&
+        currentGroup.season === season &&
+        periodOf(currentGroup.watched_at) === currentPeriod
+
+      if (currentGroup && isSameGroup) {
+        // Don't update watched_at - keep the first (most recent) timestamp
+        currentGroup.episodes.push(item.episode.number)
+      } else {
+        if (currentGroup) {
+          items.push({ type: 'season', group: currentGroup })
+        }
+        currentGroup = {
+          show: item.show,
+          season,
+          episodes: [item.episode.number],
+          watched_at: item.watched_at,
+        }
+      }
+    }
+  }
+
+  if (currentGroup) {
+    items.push({ type: 'season', group: currentGroup })
+  }
+
+  return items
+}
+
+export function collectUniqueSlugs(
+  grouped: GroupedItem[][],
+  rawCalendar: RawCalendar,
+): string[] {
+  const slugs = new Set<string>()
+
+  for (const item of grouped.flat()) {
+    if (item.type === 'season') {
+      slugs.add(item.group.show.ids.slug)
+    }
+  }
+
+  for (const ep of rawCalendar.episodes) {
+    slugs.add(ep.show.ids.slug)
+  }
+
+  return Array.from(slugs)
+}
+
+// ============================================================================
+// Play Counts
+// ============================================================================
+
+/** From the archive, which holds every play: the live list stops at 100 */
+export function collectPlays(plays: TraktHistoryItem[]): PlayLog {
+  const log: PlayLog = { movies: new Map(), episodes: new Map() }
+  const add = <K>(map: Map<K, string[]>, key: K, watchedAt: string) =>
+    map.set(key, [...(map.get(key) ?? []), watchedAt])
+
+  const oldestFirst = [...plays].sort((a, b) =>
+    a.watched_at.localeCompare(b.watched_at),
+  )
+  for (const play of oldestFirst) {
+    if (play.type === 'movie' && play.movie) {
+      add(log.movies, play.movie.ids.trakt, play.watched_at)
+    } else if (play.show && play.episode) {
+      const { season, number } = play.episode
+      add(
+        log.episodes,
+        `${play.show.ids.trakt}-${season}-${number}`,
+        play.watched_at,
+      )
+    }
+  }
+  return log
+}
+
+/**
+ * Plays up to and including `watchedAt`, not in total: a card stays the
+ * play it was, so an archived year needs no rewrite after a rewatch.
+ */
+function playsBy(times: string[] | undefined, watchedAt: string): number {
+  return times?.filter((time) => time <= watchedAt).length ?? 0
+}
+
+// Only a rewatch carries the count
+const rewatchPlays = (plays: number) => (plays > 1 ? plays : undefined)
+
+// ============================================================================
+// Enrichment
+// ============================================================================
+
+/** `labelOf` turns a play's timestamp into the stored `watched_at` */
+export function enrichItems(
+  grouped: GroupedItem[],
+  seasonsMap: Map<string, Map<number, TraktSeason>>,
+  ratings: Ratings,
+  comments: Comments,
+  playLog: PlayLog,
+  labelOf: (watchedAt: string) => string,
+): WatchlogItem[] {
+  return grouped.map((item): WatchlogItem => {
+    if (item.type === 'movie') {
+      const poster = getPosterUrl(item.movie.images)
+      const rating = ratings.movies.get(item.movie.ids.trakt)
+      const comment = comments.movies.get(item.movie.ids.trakt)
+      const plays = rewatchPlays(
+        playsBy(playLog.movies.get(item.movie.ids.trakt), item.watched_at),
+      )
+
+      return {
+        type: 'movie',
+        title: item.movie.title,
+        year: item.movie.year,
+        ...(poster && { poster }),
+        watched_at: labelOf(item.watched_at),
+        trakt_url: `https://trakt.tv/movies/${item.movie.ids.slug}`,
+        ...(rating && { rating }),
+        ...(plays && { plays }),
+        ...(comment && { comment }),
+      }
+    }
+
+    const { group } = item
+    const showSeasons = seasonsMap.get(group.show.ids.slug)
+    const seasonData = showSeasons?.get(group.season)
+    const episodes = group.episodes
+
+    const year = seasonData?.first_aired
+      ? Number(zonedDate(new Date(seasonData.first_aired)).slice(0, 4))
+      : group.show.year
+
+    const poster =
+      getPosterUrl(seasonData?.images) ?? getPosterUrl(group.show.images)
+
+    const isSingleEpisode = episodes.length === 1
+    const subtitle = formatEpisodeSubtitle(group.season, episodes)
+
+    const showId = group.show.ids.trakt
+    const seasonKey = `${showId}-${group.season}`
+    const seasonRating =
+      ratings.seasons.get(seasonKey) ?? ratings.shows.get(showId)
+    const seasonComment =
+      comments.seasons.get(seasonKey) ?? comments.shows.get(showId)
+    // A pass over the card's episodes is as far as its least played one got
+    const plays = rewatchPlays(
+      Math.min(
+        ...episodes.map((episode) =>
+          playsBy(
+            playLog.episodes.get(`${seasonKey}-${episode}`),
+            group.watched_at,
+          ),
+        ),
+      ),
+    )
+
+    if (isSingleEpisode) {
+      const episodeKey = `${showId}-${group.season}-${episodes[0]}`
+      const rating = ratings.episodes.get(episodeKey) ?? seasonRating
+      const comment = comments.episodes.get(episodeKey) ?? seasonComment
+
+      return {
+        type: 'episode',
+        title: group.show.title,
+        subtitle,
+        year,
+        ...(poster && { poster }),
+        watched_at: labelOf(group.watched_at),
+        trakt_url: buildShowUrl(group.show.ids.slug, group.season, episodes[0]),
+        ...(rating && { rating }),
+        ...(plays && { plays }),
+        ...(comment && { comment }),
+      }
+    }
+
+    return {
+      type: 'season',
+      title: group.show.title,
+      subtitle,
+      year,
+      ...(poster && { poster }),
+      watched_at: labelOf(group.watched_at),
+      trakt_url: buildShowUrl(group.show.ids.slug, group.season),
+      ...(seasonRating && { rating: seasonRating }),
+      ...(plays && { plays }),
+      ...(seasonComment && { comment: seasonComment }),
+    }
+  })
+}
+
+export interface GroupedCalendarEpisode {
+  show: TraktShow
+  season: number
+  date: string
+  episodes: number[]
+  episode_type: EpisodeType
+}
+
+// Priority for episode types (higher = more important to show)
+const EPISODE_TYPE_PRIORITY: Record<EpisodeType, number> = {
+  series_finale: 6,
+  season_finale: 5,
+  mid_season_finale: 4,
+  series_premiere: 3,
+  season_premiere: 2,
+  mid_season_premiere: 1,
+  standard: 0,
+}
+
+export function groupCalendarEpisodes(
+  episodes: TraktCalendarEpisode[],
+): GroupedCalendarEpisode[] {
+  const groups = new Map<string, GroupedCalendarEpisode>()
+
+  for (const ep of episodes) {
+    const date = zonedDate(new Date(ep.first_aired))
+    const key = `${date}|${ep.show.ids.slug}|${ep.episode.season}`
+    const epType = ep.episode.episode_type
+
+    const existing = groups.get(key)
+    if (existing) {
+      existing.episodes.push(ep.episode.number)
+      // Keep the most significant episode type
+      if (
+        EPISODE_TYPE_PRIORITY[epType] >
+        EPISODE_TYPE_PRIORITY[existing.episode_type]
+      ) {
+        existing.episode_type = epType
+      }
+    } else {
+      groups.set(key, {
+        show: ep.show,
+        season: ep.episode.season,
+        date,
+        episodes: [ep.episode.number],
+        episode_type: epType,
+      })
+    }
+  }
+
+  return Array.from(groups.values())
+}
+
+export function formatEpisodeSubtitle(
+  season: number,
+  episodes: number[],
+): string {
+  const sorted = [...episodes].sort((a, b) => a - b)
+
+  if (sorted.length === 1) {
+    return `S${season} E${sorted[0]}`
+  }
+
+  const isConsecutive = sorted.every(
+    (ep, i) => i === 0 || ep === sorted[i - 1] + 1,
+  )
+
+  if (isConsecutive) {
+    return `S${season} E${sorted[0]}-${sorted[sorted.length - 1]}`
+  }
+
+  return `S${season} E${sorted.join(',')}`
+}
+
+export function enrichCalendar(
+  rawCalendar: RawCalendar,
+  seasonsMap: Map<string, Map<number, TraktSeason>>,
+  today: string,
+): CalendarItem[] {
+  const groupedEpisodes = groupCalendarEpisodes(rawCalendar.episodes)
+
+  const items: CalendarItem[] = [
+    ...groupedEpisodes.map((group): CalendarItem => {
+      const showSeasons = seasonsMap.get(group.show.ids.slug)
+      const seasonData = showSeasons?.get(group.season)
+      const poster =
+        getPosterUrl(seasonData?.images) ?? getPosterUrl(group.show.images)
+
+      const isSingleEpisode = group.episodes.length === 1
+      const type = isSingleEpisode ? 'episode' : 'season'
+      const trakt_url = buildShowUrl(
+        group.show.ids.slug,
+        group.season,
+        isSingleEpisode ? group.episodes[0] : undefined,
+      )
+
+      return {
+        type,
+        title: group.show.title,
+        subtitle: formatEpisodeSubtitle(group.season, group.episodes),
+        date: group.date,
+        ...(poster && { poster }),
+        trakt_url,
+        episode_type: group.episode_type,
+      }
+    }),
+    ...rawCalendar.movies.map((m): CalendarItem => {
+      const poster = getPosterUrl(m.movie.images)
+      return {
+        type: 'movie',
+        title: m.movie.title,
+        date: m.released,
+        ...(poster && { poster }),
+        trakt_url: `https://trakt.tv/movies/${m.movie.ids.slug}`,
+      }
+    }),
+  ]
+
+  // The request reaches a day back, so trim the past by zoned date here.
+  return items
+    .filter((item) => item.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * The calendar as feed events. The Trakt path already names the show, season
+ * and episode, or the movie, so it makes the UID; a card for several episodes
+ * of one day carries the season's path and adds the date.
+ */
+export function calendarEvents(calendar: CalendarItem[]): IcalEvent[] {
+  return calendar.map((item) => {
+    const path = new URL(item.trakt_url).pathname.slice(1)
+    const label =
+      item.episode_type && item.episode_type !== 'standard'
+        ? ` · ${EPISODE_TYPE_LABELS[item.episode_type]}`
+        : ''
+
+    return {
+      uid: `${path}${item.type === 'season' ? `/${item.date}` : ''}@trakt.tv`,
+      start: item.date,
+      summary: `${item.title}${item.subtitle ? ` ${item.subtitle}` : ''}${label}`,
+      description: item.trakt_url,
+      url: item.trakt_url,
+    }
+  })
+}
+
+// ============================================================================
+// Watchlist
+// ============================================================================
+
+/** Newest addition first; rows missing what their type needs are dropped */
+export function enrichWatchlist(
+  watchlist: TraktWatchlistItem[],
+): WatchlistItem[] {
+  const items = watchlist.flatMap((entry): WatchlistItem[] => {
+    const { listed_at } = entry
+
+    if (entry.type === 'movie' && entry.movie) {
+      const { movie } = entry
+      const poster = getPosterUrl(movie.images)
+      return [
+        {
+          type: 'movie',
+          title: movie.title,
+          ...(movie.year && { year: movie.year }),
+          ...(poster && { poster }),
+          trakt_url: `https://trakt.tv/movies/${movie.ids.slug}`,
+          listed_at,
+          ...(movie.released && { released: movie.released }),
+        },
+      ]
+    }
+
+    if (!entry.show) return []
+    const { show } = entry
+    const base = {
+      title: show.title,
+      ...(show.year && { year: show.year }),
+      listed_at,
+    }
+
+    if (entry.type === 'show') {
+      const poster = getPosterUrl(show.images)
+      return [
+        {
+          type: 'show',
+          ...base,
+          ...(poster && { poster }),
+          trakt_url: `https://trakt.tv/shows/${show.ids.slug}`,
+        },
+      ]
+    }
+
+    if (entry.type === 'season' && entry.season) {
+      const poster =
+        getPosterUrl(entry.season.images) ?? getPosterUrl(show.images)
+      return [
+        {
+          type: 'season',
+          ...base,
+          subtitle: `Season ${entry.season.number}`,
+          ...(poster && { poster }),
+          trakt_url: buildShowUrl(show.ids.slug, entry.season.number),
+        },
+      ]
+    }
+
+    if (entry.type === 'episode' && entry.episode) {
+      const { season, number } = entry.episode
+      const poster = getPosterUrl(show.images)
+      return [
+        {
+          type: 'episode',
+          ...base,
+          subtitle: formatEpisodeSubtitle(season, [number]),
+          ...(poster && { poster }),
+          trakt_url: buildShowUrl(show.ids.slug, season, number),
+        },
+      ]
+    }
+
+    return []
+  })
+
+  return items.sort((a, b) => b.listed_at.localeCompare(a.listed_at))
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+/**
+ * Shows with an episode left to watch, in the order given. The poster is the
+ * next episode's season where the seasons were fetched anyway.
+ */
+export function enrichProgress(
+  recent: RecentShow[],
+  seasonsMap: Map<string, Map<number, TraktSeason>>,
+): ShowProgress[] {
+  return recent.flatMap(({ watched, progress }): ShowProgress[] => {
+    const next = progress.next_episode
+    if (!next) return []
+
+    const { show } = watched
+    const seasonData = seasonsMap.get(show.ids.slug)?.get(next.season)
+    const poster = getPosterUrl(seasonData?.images) ?? getPosterUrl(show.images)
+
+    return [
+      {
+        title: show.title,
+        ...(poster && { poster }),
+        trakt_url: `https://trakt.tv/shows/${show.ids.slug}`,
+        aired: progress.aired,
+        completed: progress.completed,
+        next_episode: {
+          subtitle: formatEpisodeSubtitle(next.season, [next.number]),
+          ...(next.title && { title: next.title }),
+          trakt_url: buildShowUrl(show.ids.slug, next.season, next.number),
+        },
+        last_watched_at: watched.last_watched_at,
+      },
+    ]
+  })
+}
+
+// ============================================================================
+// Stats
+// ============================================================================
+
+/** `/users/me/stats` as the frontend reads it, hours rounded per side */
+export function toWatchlogStats(stats: TraktStats): WatchlogStats {
+  const { movies, shows, seasons, episodes } = stats
+  return {
+    movies_watched: movies.watched,
+    shows_watched: shows.watched,
+    total_hours: Math.round((movies.minutes + episodes.minutes) / 60),
+    extended: {
+      episodes_watched: episodes.watched,
+      movie_hours: Math.round(movies.minutes / 60),
+      episode_hours: Math.round(episodes.minutes / 60),
+      movie_plays: movies.plays,
+      episode_plays: episodes.plays,
+      movies_collected: movies.collected,
+      episodes_collected: episodes.collected,
+      comments:
+        movies.comments + shows.comments + seasons.comments + episodes.comments,
+      ratings: Array.from(
+        { length: 10 },
+        (_, index) => stats.ratings.distribution[index + 1] ?? 0,
+      ),
+    },
+  }
+}
+
+// ============================================================================
+// Activity
+// ============================================================================
+
+/** Plays per zoned day over the `days` ending with `today`, empty days too */
+export function countDailyPlays(
+  plays: TraktHistoryItem[],
+  today: string,
+  days: number,
+): WatchlogActivity {
+  const from = shiftDate(today, -(days - 1))
+  const byDate = new Map<string, number>()
+
+  for (const play of plays) {
+    const date = zonedDate(new Date(play.watched_at))
+    if (date < from || date > today) continue
+    byDate.set(date, (byDate.get(date) ?? 0) + 1)
+  }
+
+  return {
+    from,
+    counts: Array.from(
+      { length: days },
+      (_, index) => byDate.get(shiftDate(from, index)) ?? 0,
+    ),
+  }
+}
+
+// ============================================================================
+// Feed
+// ============================================================================
+
+// A label coarsens as it ages (day, week, month), so only a day label can
+// belong to a play the last run had not seen
+const DAY_LABEL = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Cards the previous payload did not have, as feed entries stamped with this
+ * run. A season card that gained an episode counts as new, and keeps its id
+ * when that happens on the same day, so the feed replaces its entry.
+ */
+export function watchedEntries(
+  previous: WatchlogItem[],
+  next: WatchlogItem[],
+  updated: string,
+): AtomEntry[] {
+  const key = (item: WatchlogItem) =>
+    `${item.trakt_url}|${item.watched_at}|${item.subtitle ?? ''}`
+  const seen = new Set(previous.map(key))
+
+  return next
+    .filter((item) => DAY_LABEL.test(item.watched_at) && !seen.has(key(item)))
+    .map((item) => ({
+      id: `${item.trakt_url}#${item.watched_at}`,
+      title: `${item.title}${item.subtitle ? ` ${item.subtitle}` : ''}`,
+      link: item.trakt_url,
+      updated,
+      ...(item.rating && { summary: `Rated ${item.rating}/10` }),
+      ...(item.poster && { enclosure: item.poster }),
+    }))
+}
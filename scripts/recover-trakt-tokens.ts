@@ -0,0 +1,25 @@
+/**
+ * Opens the recovery file sync-trakt leaves when it refreshed the Trakt
+ * tokens but could not store them. Download the `trakt-recovery` artifact
+ * of the failed run, then:
+ *
+ *   TRAKT_RECOVERY_KEY=... bun run scripts/recover-trakt-tokens.ts [file]
+ *
+ * and set the printed values as the repo secrets of the same names. The old
+ * refresh token is spent, so until then every sync fails.
+ */
+
+import { readFileSync } from 'node:fs'
+import { requireEnv } from './lib/env'
+import { openTokens } from './lib/trakt-tokens'
+
+const file = process.argv[2] ?? 'trakt-recovery.json'
+const tokens = openTokens(
+  readFileSync(file, 'utf8'),
+  requireEnv('TRAKT_RECOVERY_KEY'),
+)
+
+console.log(`TRAKT_ACCESS_TOKEN=${tokens.access_token}`)
+console.log(`TRAKT_REFRESH_TOKEN=${tokens.refresh_token}`)
+if (tokens.expires_at)
+  console.log(`TRAKT_TOKEN_EXPIRES_AT=${tokens.expires_at}`)
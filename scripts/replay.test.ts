@@ -0,0 +1,157 @@
+/**
+ * Each sync script's whole main() against its committed recording in
+ * fixtures/, writing to a scratch directory: no network, no GitHub.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { parseWatchlog } from '@/features/watchlog/lib/schema'
+import { parseWhatsnext } from '@/features/whatsnext/lib/schema'
+
+const FIXTURES_DIR = path.join(import.meta.dir, '..', 'fixtures')
+// A child process per test; the default 5s leaves a slow runner little room
+const RUN_TIMEOUT_MS = 30_000
+
+let dir: string
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'replay-'))
+})
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+/**
+ * Runs the script in a bare environment from the scratch directory, so a
+ * developer's .env is never loaded and nothing lands in the tree.
+ */
+function replay(script: string, env: Record<string, string>) {
+  const run = Bun.spawnSync({
+    cmd: [process.execPath, path.join(import.meta.dir, `${script}.ts`)],
+    cwd: dir,
+    env: {
+      PATH: process.env.PATH ?? '',
+      FIXTURES_MODE: 'replay',
+      FIXTURES_DIR,
+      STORAGE_BACKEND: 'local',
+      STORAGE_DIR: dir,
+      GH_REPOSITORY: 'ykvlv/ykvlv',
+      ...env,
+    },
+  })
+  const output = `${run.stdout.toString()}${run.stderr.toString()}`
+  if (run.exitCode !== 0) throw new Error(`${script} failed:\n${output}`)
+  return output
+}
+
+const read = (name: string) => readFileSync(path.join(dir, name), 'utf8')
+
+describe('sync-trakt', () => {
+  test(
+    'writes the live file, archive years, shows and feeds',
+    () => {
+      const output = replay('sync-trakt', {
+        TRAKT_CLIENT_ID: 'replay',
+        TRAKT_CLIENT_SECRET: 'replay',
+        TRAKT_ACCESS_TOKEN: 'replay',
+        TRAKT_REFRESH_TOKEN: 'replay',
+        GIST_FILENAME_WATCHLOG: 'watchlog.json',
+      })
+      expect(output).toContain('Trakt: 12 requests, 0 retried, 0 failed')
+
+      expect(readdirSync(dir).sort()).toEqual([
+        'watchlog-2024.json',
+        'watchlog-2025.json',
+        'watchlog-shows.json',
+        'watchlog.atom',
+        'watchlog.ics',
+        'watchlog.json',
+      ])
+
+      const data = parseWatchlog(JSON.parse(read('watchlog.json')))
+      expect(data.updated_at).toBe('2025-03-14T09:00:00.000Z')
+      expect(data.archive_years).toEqual([2025, 2024])
+      expect(
+        data.items.map((item) => `${item.title} ${item.watched_at}`),
+      ).toEqual([
+        'Severance 2025-03-12',
+        'Severance 2025-03-10',
+        'Dune: Part Two 2025-W09',
+        'Dune: Part Two 2024-12',
+      ])
+
+      const [, , rewatch, firstWatch] = data.items
+      expect(rewatch.plays).toBe(2)
+      expect(firstWatch.plays).toBeUndefined()
+      expect(rewatch.rating).toBe(9)
+      expect(rewatch.comment).toMatchObject({ kind: 'shout', spoiler: true })
+
+      expect(data.stats.extended?.ratings).toEqual([
+        0, 0, 0, 0, 0, 0, 0, 0, 1, 0,
+      ])
+      expect(data.calendar.map((item) => item.date)).toEqual(['2025-03-21'])
+      expect(data.progress.map((show) => show.next_episode.subtitle)).toEqual([
+        'S2 E10',
+      ])
+
+      expect(read('watchlog.ics')).toContain(
+        'UID:shows/severance/seasons/2/episodes/10@trakt.tv',
+      )
+    },
+    RUN_TIMEOUT_MS,
+  )
+})
+
+describe('sync-whatsnext', () => {
+  test(
+    'merges the model delta, leaving the photo and GitHub alone',
+    () => {
+      replay('sync-whatsnext', {
+        WHATSNEXT_CHANNELS: 'kinoclub',
+        OPENROUTER_API_KEY: 'replay',
+        GIST_FILENAME_WHATSNEXT: 'whatsnext.json',
+      })
+
+      expect(readdirSync(dir).sort()).toEqual([
+        'whatsnext.atom',
+        'whatsnext.ics',
+        'whatsnext.json',
+      ])
+
+      const data = parseWhatsnext(JSON.parse(read('whatsnext.json')))
+      expect(data.cursors).toEqual({ kinoclub: 102 })
+      expect(data.events).toEqual([
+        {
+          id: 'kinoclub/101#1',
+          date: '2025-03-20',
+          title: 'Stalker on 35mm',
+          description:
+            'Tarkovsky on film, 19:30, tickets at the door or online.',
+          source_posts: ['kinoclub/101'],
+          // Copied into the release only by a run on GitHub storage
+          photo: 'https://cdn4.telesco.pe/file/kinoclub-101.jpg',
+          updated_at: '2025-03-14T09:00:00.000Z',
+        },
+        {
+          id: 'kinoclub/102#1',
+          date: '2025-03-25',
+          date_end: '2025-03-27',
+          title: 'Short film weekend',
+          description: 'Three programmes a day.',
+          source_posts: ['kinoclub/102'],
+          updated_at: '2025-03-14T09:00:00.000Z',
+        },
+      ])
+
+      const calendar = read('whatsnext.ics')
+      expect(calendar).toContain('UID:kinoclub/101#1@t.me')
+      expect(calendar).toContain('DTEND;VALUE=DATE:20250328')
+      expect(calendar).toContain('LAST-MODIFIED:20250314T090000Z')
+      expect(calendar).not.toContain('SEQUENCE')
+      expect(read('whatsnext.atom').match(/<entry>/g)).toHaveLength(2)
+    },
+    RUN_TIMEOUT_MS,
+  )
+})
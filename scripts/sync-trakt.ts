@@ -1,25 +1,96 @@
 /**
- * Sync Trakt watch history to GitHub Gist
+ * Sync Trakt watch history to GitHub Gist (or another storage backend)
  *
  * Fetches movie/show history, ratings, and calendar from Trakt API,
  * groups consecutive episodes by show+season,
  * and saves to a public Gist for frontend consumption.
  *
  * Features:
- * - Automatic OAuth token refresh with validation
- * - Updates GitHub Secrets when tokens are refreshed
- * - Parallel API requests for performance
+ * - OAuth token refresh ahead of the expiry, or on a 401, with validation
+ * - Updates GitHub Secrets when tokens are refreshed, keeping a sealed
+ *   recovery file until they are
+ * - Parallel API requests, bounded, retried on 429/5xx with backoff
+ * - Incremental archive of the full history, one Gist file per year
+ * - Every archived show with its watched seasons, for the show pages
+ * - My own comments on the cards, spoilers flagged for the frontend to hide
+ * - `--dry-run` / `--out <dir>`: local files and a diff, no GitHub writes
  */
 
-import libsodium from 'libsodium-wrappers'
+import { rmSync, writeFileSync } from 'node:fs'
+import {
+  diffList,
+  diffValues,
+  readDryRun,
+  writeDryRun,
+  type DryRunFile,
+} from './lib/dry-run'
+import { numberEnv, optionalEnv, requireEnv } from './lib/env'
+import { createGitHubClient } from './lib/github'
+import { buildFeed, mergeEntries, readFeedEntries } from './lib/atom'
+import { buildCalendar } from './lib/ical'
+import { buildRecap } from './lib/recap'
+import { buildShows } from './lib/shows'
+import {
+  collectComments,
+  type Comments,
+  type TraktCommentItem,
+} from './lib/comments'
+import { installFixtures } from './lib/fixtures'
+import {
+  refreshDue,
+  sealTokens,
+  tokenExpiry,
+  type StoredTokens,
+} from './lib/trakt-tokens'
+import { createStorage, type Storage } from './lib/storage'
+import {
+  calendarEvents,
+  collectPlays,
+  collectUniqueSlugs,
+  countDailyPlays,
+  enrichCalendar,
+  enrichItems,
+  enrichProgress,
+  enrichWatchlist,
+  groupHistory,
+  toWatchlogStats,
+  watchedEntries,
+  type RawCalendar,
+  type Ratings,
+  type RecentShow,
+  type TraktCalendarEpisode,
+  type TraktCalendarMovie,
+  type TraktHistoryItem,
+  type TraktMovie,
+  type TraktSeason,
+  type TraktShow,
+  type TraktShowProgress,
+  type TraktStats,
+  type TraktWatchedShow,
+  type TraktWatchlistItem,
+} from './lib/watchlog'
 import { formatWatchedAtAuto } from '@/features/watchlog/lib/watched-date'
+import {
+  archiveFilename,
+  archiveYear,
+  showsFilename,
+} from '@/features/watchlog/lib/archive'
+import {
+  WATCHLOG_SCHEMA_VERSION,
+  parseWatchlog,
+  parseWatchlogArchive,
+  parseWatchlogShows,
+} from '@/features/watchlog/lib/schema'
+import { feedFilename } from '@/shared/lib/feeds'
 import { zonedDate, shiftDate } from '@/shared/lib/zoned-date'
 import type {
+  ShowDetail,
+  WatchlogActivity,
   WatchlogItem,
   WatchlogStats,
-  CalendarItem,
   WatchlogData,
-  EpisodeType,
+  WatchlogArchive,
+  WatchlogShows,
 } from '@/features/watchlog/types'
 
 // ============================================================================
@@ -27,83 +98,58 @@ import type {
 // ============================================================================
 
 const TRAKT_API_BASE = 'https://api.trakt.tv'
-const GITHUB_API_BASE = 'https://api.github.com'
 
-// Raw history items to fetch
+// Raw history items to fetch, also the page size when filling the archive
 const HISTORY_LIMIT = 100
+// Comments per page; most accounts fit in one
+const COMMENTS_LIMIT = 100
 // Calendar lookahead period
 const CALENDAR_DAYS = 365
 // Max items displayed on the frontend
 const OUTPUT_ITEMS_LIMIT = 30
+// Shows played within this many days get a progress request each
+const PROGRESS_DAYS = 30
+// ...but never more than this many, most recent first
+const PROGRESS_LIMIT = 12
+// Days of play counts behind the activity heatmap
+const ACTIVITY_DAYS = 365
+
+// Trakt allows 1000 GETs per 5 minutes; a few in flight is plenty for a run
+const MAX_CONCURRENT_REQUESTS = 4
+// Retries per request on 429, 5xx or a network error
+const MAX_RETRIES = 4
+// Backoff without a server hint: 1s, 2s, 4s, 8s, plus jitter
+const RETRY_BASE_MS = 1000
+// A server asking for longer than this is an outage, not a hiccup
+const RETRY_MAX_MS = 60_000
+// Where rotated tokens wait, sealed, until the secrets have them
+const TRAKT_RECOVERY_FILE = 'trakt-recovery.json'
 
 // ============================================================================
 // Environment
 // ============================================================================
 
-function requireEnv(name: string): string {
-  const value = process.env[name]
-  if (!value) {
-    console.error(`Missing required environment variable: ${name}`)
-    process.exit(1)
-  }
-  return value
-}
-
 const TRAKT_CLIENT_ID = requireEnv('TRAKT_CLIENT_ID')
 const TRAKT_CLIENT_SECRET = requireEnv('TRAKT_CLIENT_SECRET')
 const TRAKT_ACCESS_TOKEN = requireEnv('TRAKT_ACCESS_TOKEN')
 const TRAKT_REFRESH_TOKEN = requireEnv('TRAKT_REFRESH_TOKEN')
-const GIST_ID = requireEnv('GIST_ID')
+// Written back with the tokens; absent until the first refresh records it
+const TRAKT_TOKEN_EXPIRES_AT = optionalEnv('TRAKT_TOKEN_EXPIRES_AT')
+// More than a day by default, so a token never lapses between daily runs;
+// a negative margin would put the refresh after the expiry
+const TRAKT_REFRESH_MARGIN_HOURS = numberEnv('TRAKT_REFRESH_MARGIN_HOURS', 48, {
+  min: 0,
+})
 const GIST_FILENAME_WATCHLOG = requireEnv('GIST_FILENAME_WATCHLOG')
-const GH_TOKEN = requireEnv('GH_TOKEN')
 const GH_REPOSITORY = requireEnv('GH_REPOSITORY')
 
+// Reads GH_TOKEN on the first call that needs it, so a run on the local
+// backend goes without one until it has secrets to write
+const github = createGitHubClient()
+
 // ============================================================================
 // Trakt API Types
 // ============================================================================
-
-interface TraktIds {
-  trakt: number
-  slug: string
-}
-
-interface TraktImages {
-  poster?: string[]
-}
-
-interface TraktMovie {
-  title: string
-  year: number
-  ids: TraktIds
-  images?: TraktImages
-}
-
-interface TraktShow {
-  title: string
-  year: number
-  ids: TraktIds
-  images?: TraktImages
-}
-
-interface TraktEpisode {
-  season: number
-  number: number
-}
-
-interface TraktSeason {
-  number: number
-  first_aired?: string
-  images?: TraktImages
-}
-
-interface TraktHistoryItem {
-  watched_at: string
-  type: 'movie' | 'episode'
-  movie?: TraktMovie
-  show?: TraktShow
-  episode?: TraktEpisode
-}
-
 interface TraktRatingItem {
   type: 'movie' | 'show' | 'season' | 'episode'
   rating: number
@@ -113,23 +159,6 @@ interface TraktRatingItem {
   episode?: { season: number; number: number }
 }
 
-interface TraktStats {
-  movies: { watched: number; minutes: number }
-  shows: { watched: number }
-  episodes: { minutes: number }
-}
-
-interface TraktCalendarEpisode {
-  first_aired: string
-  episode: { season: number; number: number; episode_type: EpisodeType }
-  show: TraktShow
-}
-
-interface TraktCalendarMovie {
-  released: string
-  movie: TraktMovie
-}
-
 interface TraktTokenResponse {
   access_token: string
   refresh_token: string
@@ -138,52 +167,68 @@ interface TraktTokenResponse {
 }
 
 // ============================================================================
-// Internal Types
+// Trakt Client
 // ============================================================================
 
-interface Ratings {
-  movies: Map<number, number>
-  shows: Map<number, number>
-  seasons: Map<string, number>
-  episodes: Map<string, number>
+interface RequestStats {
+  requests: number
+  retries: number
+  failures: number
+  /** Status (or `network`) of every retried response, with its count */
+  retried: Map<string, number>
 }
 
-interface GroupedSeason {
-  show: TraktShow
-  season: number
-  episodes: number[]
-  watched_at: string
-}
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
 
-type GroupedItem =
-  | { type: 'movie'; movie: TraktMovie; watched_at: string }
-  | { type: 'season'; group: GroupedSeason }
-
-interface RawCalendar {
-  episodes: TraktCalendarEpisode[]
-  movies: TraktCalendarMovie[]
+/**
+ * How long Trakt asks us to wait: Retry-After in seconds, else the reset time
+ * in X-Ratelimit, else undefined for plain backoff.
+ */
+function serverDelay(response: Response): number | undefined {
+  const retryAfter = Number(response.headers.get('Retry-After'))
+  if (retryAfter > 0) return retryAfter * 1000
+
+  const rateLimit = response.headers.get('X-Ratelimit')
+  if (!rateLimit) return undefined
+  try {
+    const { until } = JSON.parse(rateLimit) as { until?: string }
+    const delay = until ? Date.parse(until) - Date.now() : NaN
+    return delay > 0 ? delay : undefined
+  } catch {
+    return undefined
+  }
 }
 
-// ============================================================================
-// Trakt Client
-// ============================================================================
+const isRetryable = (status: number) => status === 429 || status >= 500
 
 class TraktClient {
   private readonly clientId: string
   private readonly clientSecret: string
   private accessToken: string
   private refreshToken: string
+  private expiresAt: string | undefined
+
+  private active = 0
+  private readonly waiting: (() => void)[] = []
+  private readonly stats: RequestStats = {
+    requests: 0,
+    retries: 0,
+    failures: 0,
+    retried: new Map(),
+  }
 
   constructor(
     clientId: string,
     clientSecret: string,
     accessToken: string,
     refreshToken: string,
+    expiresAt?: string,
   ) {
     this.clientId = clientId
     this.clientSecret = clientSecret
     this.accessToken = accessToken
     this.refreshToken = refreshToken
+    this.expiresAt = expiresAt
   }
 
   private getHeaders(): Record<string, string> {
@@ -195,52 +240,180 @@ class TraktClient {
     }
   }
 
+  // ==========================================================================
+  // Request layer: every call below goes through send()
+  // ==========================================================================
+
+  private async acquire(): Promise<void> {
+    if (this.active < MAX_CONCURRENT_REQUESTS) {
+      this.active++
+      return
+    }
+    await new Promise<void>((resolve) => this.waiting.push(resolve))
+  }
+
+  private release(): void {
+    // Handed straight to the next waiter, so active stays at the cap
+    const next = this.waiting.shift()
+    if (next) next()
+    else this.active--
+  }
+
+  /**
+   * fetch with a concurrency slot and retries. A retried request keeps its
+   * slot while it waits: on a 429 the others should slow down too. `retry:
+   * false` is for the token refresh, which spends a single-use token.
+   */
+  private async send(
+    url: string,
+    init: RequestInit,
+    { retry = true } = {},
+  ): Promise<Response> {
+    await this.acquire()
+    try {
+      for (let attempt = 0; ; attempt++) {
+        this.stats.requests++
+        let response: Response | undefined
+        try {
+          response = await fetch(url, init)
+        } catch (error) {
+          if (!retry || attempt >= MAX_RETRIES) {
+            this.stats.failures++
+            throw error
+          }
+        }
+
+        if (response && (!retry || !isRetryable(response.status))) {
+          if (!response.ok) this.stats.failures++
+          return response
+        }
+
+        const hinted = response && serverDelay(response)
+        const delay =
+          hinted ?? RETRY_BASE_MS * 2 ** attempt * (1 + Math.random() / 2)
+        if (attempt >= MAX_RETRIES || delay > RETRY_MAX_MS) {
+          this.stats.failures++
+          // The last response goes back as is, so the caller's error names it
+          if (response) return response
+        }
+
+        const reason = response ? String(response.status) : 'network'
+        this.stats.retries++
+        this.stats.retried.set(
+          reason,
+          (this.stats.retried.get(reason) ?? 0) + 1,
+        )
+        console.warn(
+          `Trakt ${reason} on ${new URL(url).pathname}, retry ${attempt + 1} in ${Math.round(delay / 1000)}s`,
+        )
+        await sleep(delay)
+      }
+    } finally {
+      this.release()
+    }
+  }
+
+  /** One line for the log: how much of the rate limit this run spent */
+  summary(): string {
+    const { requests, retries, failures, retried } = this.stats
+    const reasons = [...retried]
+      .map(([reason, count]) => `${reason} x${count}`)
+      .join(', ')
+    return (
+      `Trakt: ${requests} requests, ${retries} retried` +
+      (reasons ? ` (${reasons})` : '') +
+      `, ${failures} failed`
+    )
+  }
+
   /**
-   * Validates token by making a lightweight request.
-   * If 401, refreshes token and updates GitHub secrets.
+   * Refreshes a margin ahead of the expiry stored with the tokens; without
+   * one, or when it was wrong, after a lightweight request comes back 401.
+   * Refreshes only given the recovery key, which a dry run and a run on the
+   * local backend go without, leaving the secrets alone: Trakt refresh
+   * tokens are single-use, so one rotated without writing it back locks the
+   * real sync out.
    */
-  async ensureValidToken(): Promise<void> {
-    const response = await fetch(`${TRAKT_API_BASE}/users/settings`, {
+  async ensureValidToken(recoveryKey?: string): Promise<void> {
+    const margin = TRAKT_REFRESH_MARGIN_HOURS * 60 * 60 * 1000
+    if (refreshDue(this.expiresAt, new Date(), margin)) {
+      if (recoveryKey) {
+        console.log(`Token expires ${this.expiresAt}, refreshing ahead...`)
+        await this.rotateTokens(recoveryKey)
+        return
+      }
+      console.warn(
+        `Token expires ${this.expiresAt}, the real sync will refresh it`,
+      )
+    }
+
+    const response = await this.send(`${TRAKT_API_BASE}/users/settings`, {
       headers: this.getHeaders(),
     })
 
     if (response.status === 401) {
-      console.log('Token expired, refreshing...')
-      const newTokens = await this.refreshTokens()
-
-      // Update tokens in memory
-      this.accessToken = newTokens.access_token
-      this.refreshToken = newTokens.refresh_token
-
-      // Validate the new token works before updating secrets
-      const validateResponse = await fetch(`${TRAKT_API_BASE}/users/settings`, {
-        headers: this.getHeaders(),
-      })
-      if (!validateResponse.ok) {
-        throw new Error(
-          `Refreshed token is invalid: ${validateResponse.status}`,
-        )
+      if (!recoveryKey) {
+        throw new Error('Token expired, run the real sync to refresh it')
       }
+      console.log('Token expired, refreshing...')
+      await this.rotateTokens(recoveryKey)
+    }
+  }
 
-      // Update GitHub secrets
-      await updateGitHubTokenSecrets(newTokens)
-      console.log('Token refreshed and validated successfully')
+  /**
+   * In two phases, since the old refresh token dies with the refresh: the
+   * new tokens go to the sealed recovery file the moment they exist, then
+   * to the secrets, and the file goes only once every secret took them. A
+   * run that fails in between leaves the file for the workflow to keep.
+   */
+  private async rotateTokens(passphrase: string): Promise<void> {
+    const response = await this.refreshTokens()
+    const tokens: StoredTokens = {
+      access_token: response.access_token,
+      refresh_token: response.refresh_token,
+      expires_at: tokenExpiry(response),
+    }
+    writeFileSync(TRAKT_RECOVERY_FILE, sealTokens(tokens, passphrase))
+    console.log(`New tokens sealed in ${TRAKT_RECOVERY_FILE}`)
+
+    // Update tokens in memory
+    this.accessToken = tokens.access_token
+    this.refreshToken = tokens.refresh_token
+    this.expiresAt = tokens.expires_at
+
+    // Validate the new token works before updating secrets
+    const validateResponse = await this.send(
+      `${TRAKT_API_BASE}/users/settings`,
+      { headers: this.getHeaders() },
+    )
+    if (!validateResponse.ok) {
+      throw new Error(`Refreshed token is invalid: ${validateResponse.status}`)
     }
+
+    await updateGitHubTokenSecrets(tokens)
+    rmSync(TRAKT_RECOVERY_FILE)
+    console.log(
+      `Token refreshed and validated successfully, expires ${tokens.expires_at}`,
+    )
   }
 
   private async refreshTokens(): Promise<TraktTokenResponse> {
     console.log('Refreshing Trakt tokens...')
 
-    const response = await fetch(`${TRAKT_API_BASE}/oauth/token`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        refresh_token: this.refreshToken,
-        client_id: this.clientId,
-        client_secret: this.clientSecret,
-        grant_type: 'refresh_token',
-      }),
-    })
+    const response = await this.send(
+      `${TRAKT_API_BASE}/oauth/token`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          refresh_token: this.refreshToken,
+          client_id: this.clientId,
+          client_secret: this.clientSecret,
+          grant_type: 'refresh_token',
+        }),
+      },
+      { retry: false },
+    )
 
     if (!response.ok) {
       const body = await response.text()
@@ -254,8 +427,8 @@ class TraktClient {
     return data
   }
 
-  private async get<T>(endpoint: string): Promise<T> {
-    const response = await fetch(`${TRAKT_API_BASE}${endpoint}`, {
+  private async request(endpoint: string): Promise<Response> {
+    const response = await this.send(`${TRAKT_API_BASE}${endpoint}`, {
       headers: this.getHeaders(),
     })
 
@@ -263,24 +436,50 @@ class TraktClient {
       throw new Error(`Trakt API error: ${response.status} - ${endpoint}`)
     }
 
-    return (await response.json()) as T
+    return response
+  }
+
+  private async get<T>(endpoint: string): Promise<T> {
+    return (await (await this.request(endpoint)).json()) as T
   }
 
   async getHistory(): Promise<TraktHistoryItem[]> {
     return this.get(`/sync/history?extended=images&limit=${HISTORY_LIMIT}`)
   }
 
-  async getStats(): Promise<WatchlogStats> {
-    const stats = await this.get<TraktStats>('/users/me/stats')
-    return {
-      movies_watched: stats.movies.watched,
-      shows_watched: stats.shows.watched,
-      total_hours: Math.round(
-        (stats.movies.minutes + stats.episodes.minutes) / 60,
-      ),
+  /**
+   * Every play from `startAt` on, newest first, across as many pages as it
+   * takes. Without `startAt` this reads the whole history: the first run.
+   */
+  async getHistorySince(startAt?: string): Promise<TraktHistoryItem[]> {
+    const since = startAt ? `&start_at=${encodeURIComponent(startAt)}` : ''
+    // `full` for runtimes, which the year recap adds up
+    return this.getAllPages(
+      `/sync/history?extended=full,images&limit=${HISTORY_LIMIT}${since}`,
+    )
+  }
+
+  /** `endpoint` with a query string already, which `page` is added to */
+  private async getAllPages<T>(endpoint: string): Promise<T[]> {
+    const items: T[] = []
+    for (let page = 1; ; page++) {
+      const response = await this.request(`${endpoint}&page=${page}`)
+      items.push(...((await response.json()) as T[]))
+
+      const pageCount = Number(response.headers.get('X-Pagination-Page-Count'))
+      if (!(page < pageCount)) return items
     }
   }
 
+  async getStats(): Promise<WatchlogStats> {
+    return toWatchlogStats(await this.get<TraktStats>('/users/me/stats'))
+  }
+
+  async getWatchlist(): Promise<TraktWatchlistItem[]> {
+    // `full` for movie release dates, which the frontend badges
+    return this.get('/sync/watchlist?extended=full,images')
+  }
+
   async getRatings(): Promise<Ratings> {
     const all = await this.get<TraktRatingItem[]>('/sync/ratings/all')
 
@@ -312,6 +511,25 @@ class TraktClient {
     return ratings
   }
 
+  /**
+   * My reviews and shouts on titles; replies belong to other threads. Only
+   * decoration on the cards, so a failure leaves them without and the run
+   * goes on.
+   */
+  async getComments(): Promise<Comments> {
+    try {
+      return collectComments(
+        await this.getAllPages<TraktCommentItem>(
+          `/users/me/comments/all/all?include_replies=false&limit=${COMMENTS_LIMIT}`,
+        ),
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn(`Failed to fetch comments: ${message}`)
+      return collectComments([])
+    }
+  }
+
   async getShowSeasons(slug: string): Promise<Map<number, TraktSeason>> {
     try {
       const seasons = await this.get<TraktSeason[]>(
@@ -325,6 +543,7 @@ class TraktClient {
     }
   }
 
+  /** All at once on paper; send() lets MAX_CONCURRENT_REQUESTS through */
   async getShowSeasonsParallel(
     slugs: string[],
   ): Promise<Map<string, Map<number, TraktSeason>>> {
@@ -336,6 +555,37 @@ class TraktClient {
     return new Map(results)
   }
 
+  /** Progress of the shows played lately, most recently played first */
+  async getRecentProgress(): Promise<RecentShow[]> {
+    // Seasons would list every episode ever watched, and only the date is read
+    const watched = await this.get<TraktWatchedShow[]>(
+      '/sync/watched/shows?extended=noseasons,images',
+    )
+    const since = shiftDate(zonedDate(new Date()), -PROGRESS_DAYS)
+    const recent = watched
+      .filter((entry) => zonedDate(new Date(entry.last_watched_at)) >= since)
+      .sort((a, b) => b.last_watched_at.localeCompare(a.last_watched_at))
+      .slice(0, PROGRESS_LIMIT)
+
+    const results = await Promise.all(
+      recent.map(async (entry): Promise<RecentShow[]> => {
+        const slug = entry.show.ids.slug
+        try {
+          const progress = await this.get<TraktShowProgress>(
+            `/shows/${slug}/progress/watched?specials=false&count_specials=false`,
+          )
+          return [{ watched: entry, progress }]
+        } catch (error) {
+          // One show's progress is one card; the rest of the run goes on
+          const message = error instanceof Error ? error.message : String(error)
+          console.warn(`Failed to fetch progress for ${slug}: ${message}`)
+          return []
+        }
+      }),
+    )
+    return results.flat()
+  }
+
   async getRawCalendar(): Promise<RawCalendar> {
     // A window from today may lose some episodes
     const start = shiftDate(zonedDate(new Date()), -1)
@@ -354,403 +604,222 @@ class TraktClient {
 }
 
 // ============================================================================
-// Helpers
+// Archive
 // ============================================================================
 
-function getPosterUrl(images?: TraktImages): string | undefined {
-  const poster = images?.poster?.[0]
-  if (!poster) return undefined
-  return poster.startsWith('http') ? poster : `https://${poster}`
-}
+// The live list is relative to today and re-enriched daily; the archive is
+// not, so a year's file is only rewritten when a play lands in it.
 
-function buildShowUrl(slug: string, season: number, episode?: number): string {
-  const base = `https://trakt.tv/shows/${slug}/seasons/${season}`
-  return episode ? `${base}/episodes/${episode}` : base
+/** An archive file as stored: the frontend reads `items`, the script `plays` */
+interface ArchiveFile extends WatchlogArchive {
+  /** Raw history rows, newest first, trimmed to what grouping reads */
+  plays: TraktHistoryItem[]
 }
 
-// ============================================================================
-// Grouping Logic
-// ============================================================================
+/** Plays by zoned year, the way the archive files split them */
+type Archive = Map<number, TraktHistoryItem[]>
 
-function groupHistory(
-  history: TraktHistoryItem[],
-  referenceDate: Date,
-): GroupedItem[] {
-  const items: GroupedItem[] = []
-  let currentGroup: GroupedSeason | undefined
-
-  for (const item of history) {
-    if (item.type === 'movie' && item.movie) {
-      if (currentGroup) {
-        items.push({ type: 'season', group: currentGroup })
-        currentGroup = undefined
-      }
-      items.push({
-        type: 'movie',
-        movie: item.movie,
-        watched_at: item.watched_at,
-      })
-    } else if (item.type === 'episode' && item.show && item.episode) {
-      const showId = item.show.ids.trakt
-      const season = item.episode.season
-
-      const currentPeriod = formatWatchedAtAuto(item.watched_at, referenceDate)
-      const isSameGroup =
-        currentGroup &&
-        currentGroup.show.ids.trakt === showId &&
-        currentGroup.season === season &&
-        formatWatchedAtAuto(currentGroup.watched_at, referenceDate) ===
-          currentPeriod
-
-      if (currentGroup && isSameGroup) {
-        // Don't update watched_at - keep the first (most recent) timestamp
-        currentGroup.episodes.push(item.episode.number)
-      } else {
-        if (currentGroup) {
-          items.push({ type: 'season', group: currentGroup })
-        }
-        currentGroup = {
-          show: item.show,
-          season,
-          episodes: [item.episode.number],
-          watched_at: item.watched_at,
-        }
-      }
-    }
+function playYear(play: TraktHistoryItem): number {
+  return Number(zonedDate(new Date(play.watched_at)).slice(0, 4))
+}
+
+// Trakt sends every id, image and synopsis it has; a year of those is
+// megabytes, so a play keeps only what grouping and the recap read.
+// A show passes as a movie here; its runtime, an episode average, rides along
+// unread.
+function trimMedia(media: TraktMovie): TraktMovie {
+  const poster = media.images?.poster?.[0]
+  return {
+    title: media.title,
+    year: media.year,
+    ids: { trakt: media.ids.trakt, slug: media.ids.slug },
+    ...(poster && { images: { poster: [poster] } }),
+    ...(media.runtime && { runtime: media.runtime }),
   }
+}
 
-  if (currentGroup) {
-    items.push({ type: 'season', group: currentGroup })
+function trimPlay(play: TraktHistoryItem): TraktHistoryItem {
+  return {
+    id: play.id,
+    watched_at: play.watched_at,
+    type: play.type,
+    ...(play.movie && { movie: trimMedia(play.movie) }),
+    ...(play.show && { show: trimMedia(play.show) }),
+    ...(play.episode && {
+      episode: {
+        season: play.episode.season,
+        number: play.episode.number,
+        ...(play.episode.runtime && { runtime: play.episode.runtime }),
+      },
+    }),
   }
+}
 
-  return items
+/** The newest archived play, which is where the next run picks up */
+function archiveCursor(archive: Archive): string | undefined {
+  const newest = Math.max(...archive.keys())
+  return archive.get(newest)?.[0]?.watched_at
 }
 
-function collectUniqueSlugs(
-  grouped: GroupedItem[],
-  rawCalendar: RawCalendar,
-): string[] {
-  const slugs = new Set<string>()
+/** Files fresh plays into their years, returns the years that changed */
+function appendPlays(archive: Archive, fresh: TraktHistoryItem[]): number[] {
+  // start_at is inclusive, so the newest archived play always comes back
+  const known = new Set([...archive.values()].flat().map((play) => play.id))
+  const touched = new Set<number>()
 
-  for (const item of grouped) {
-    if (item.type === 'season') {
-      slugs.add(item.group.show.ids.slug)
-    }
+  for (const play of fresh) {
+    if (known.has(play.id)) continue
+    known.add(play.id)
+
+    const year = playYear(play)
+    archive.set(year, [...(archive.get(year) ?? []), trimPlay(play)])
+    touched.add(year)
   }
 
-  for (const ep of rawCalendar.episodes) {
-    slugs.add(ep.show.ids.slug)
+  for (const year of touched) {
+    archive
+      .get(year)
+      ?.sort((a, b) => b.watched_at.localeCompare(a.watched_at) || b.id - a.id)
   }
 
-  return Array.from(slugs)
+  return [...touched].sort((a, b) => b - a)
 }
 
+// A month, not the live list's sliding granularity: an archived card must not
+// regroup as it ages, or every file would change every day.
+const archivePeriod = (watchedAt: string) =>
+  zonedDate(new Date(watchedAt)).slice(0, 7)
+const archiveLabel = (watchedAt: string) => zonedDate(new Date(watchedAt))
+
 // ============================================================================
-// Enrichment
+// Storage
 // ============================================================================
 
-function enrichItems(
-  grouped: GroupedItem[],
-  seasonsMap: Map<string, Map<number, TraktSeason>>,
-  ratings: Ratings,
-  referenceDate: Date,
-): WatchlogItem[] {
-  return grouped.map((item): WatchlogItem => {
-    if (item.type === 'movie') {
-      const poster = getPosterUrl(item.movie.images)
-      const rating = ratings.movies.get(item.movie.ids.trakt)
-
-      return {
-        type: 'movie',
-        title: item.movie.title,
-        year: item.movie.year,
-        ...(poster && { poster }),
-        watched_at: formatWatchedAtAuto(item.watched_at, referenceDate),
-        trakt_url: `https://trakt.tv/movies/${item.movie.ids.slug}`,
-        ...(rating && { rating }),
-      }
-    }
-
-    const { group } = item
-    const showSeasons = seasonsMap.get(group.show.ids.slug)
-    const seasonData = showSeasons?.get(group.season)
-    const episodes = group.episodes
-
-    const year = seasonData?.first_aired
-      ? Number(zonedDate(new Date(seasonData.first_aired)).slice(0, 4))
-      : group.show.year
-
-    const poster =
-      getPosterUrl(seasonData?.images) ?? getPosterUrl(group.show.images)
-
-    const isSingleEpisode = episodes.length === 1
-    const subtitle = formatEpisodeSubtitle(group.season, episodes)
-
-    const showId = group.show.ids.trakt
-    const seasonKey = `${showId}-${group.season}`
-    const seasonRating =
-      ratings.seasons.get(seasonKey) ?? ratings.shows.get(showId)
-
-    if (isSingleEpisode) {
-      const episodeKey = `${showId}-${group.season}-${episodes[0]}`
-      const rating = ratings.episodes.get(episodeKey) ?? seasonRating
-
-      return {
-        type: 'episode',
-        title: group.show.title,
-        subtitle,
-        year,
-        ...(poster && { poster }),
-        watched_at: formatWatchedAtAuto(group.watched_at, referenceDate),
-        trakt_url: buildShowUrl(group.show.ids.slug, group.season, episodes[0]),
-        ...(rating && { rating }),
-      }
-    }
-
-    return {
-      type: 'season',
-      title: group.show.title,
-      subtitle,
-      year,
-      ...(poster && { poster }),
-      watched_at: formatWatchedAtAuto(group.watched_at, referenceDate),
-      trakt_url: buildShowUrl(group.show.ids.slug, group.season),
-      ...(seasonRating && { rating: seasonRating }),
-    }
-  })
+interface StoredWatchlog {
+  /** Undefined before the first run */
+  live?: WatchlogData
+  archive: Archive
+  /** What the archive files held on read, for the dry-run diff */
+  archiveItems: Map<number, WatchlogItem[]>
+  /** Years whose file predates the recap, rewritten once to gain one */
+  withoutRecap: number[]
+  /** Undefined until the first run that writes the show pages' file */
+  shows?: ShowDetail[]
 }
 
-interface GroupedCalendarEpisode {
-  show: TraktShow
-  season: number
-  date: string
-  episodes: number[]
-  episode_type: EpisodeType
-}
-
-// Priority for episode types (higher = more important to show)
-const EPISODE_TYPE_PRIORITY: Record<EpisodeType, number> = {
-  series_finale: 6,
-  season_finale: 5,
-  mid_season_finale: 4,
-  series_premiere: 3,
-  season_premiere: 2,
-  mid_season_premiere: 1,
-  standard: 0,
-}
-
-function groupCalendarEpisodes(
-  episodes: TraktCalendarEpisode[],
-): GroupedCalendarEpisode[] {
-  const groups = new Map<string, GroupedCalendarEpisode>()
-
-  for (const ep of episodes) {
-    const date = zonedDate(new Date(ep.first_aired))
-    const key = `${date}|${ep.show.ids.slug}|${ep.episode.season}`
-    const epType = ep.episode.episode_type
-
-    const existing = groups.get(key)
-    if (existing) {
-      existing.episodes.push(ep.episode.number)
-      // Keep the most significant episode type
-      if (
-        EPISODE_TYPE_PRIORITY[epType] >
-        EPISODE_TYPE_PRIORITY[existing.episode_type]
-      ) {
-        existing.episode_type = epType
-      }
-    } else {
-      groups.set(key, {
-        show: ep.show,
-        season: ep.episode.season,
-        date,
-        episodes: [ep.episode.number],
-        episode_type: epType,
-      })
-    }
+async function readStored(storage: Storage): Promise<StoredWatchlog> {
+  const stored: StoredWatchlog = {
+    archive: new Map(),
+    archiveItems: new Map(),
+    withoutRecap: [],
   }
 
-  return Array.from(groups.values())
-}
-
-function formatEpisodeSubtitle(season: number, episodes: number[]): string {
-  const sorted = [...episodes].sort((a, b) => a - b)
+  const showsName = showsFilename(GIST_FILENAME_WATCHLOG)
 
-  if (sorted.length === 1) {
-    return `S${season} E${sorted[0]}`
-  }
+  for (const name of await storage.list()) {
+    const year = archiveYear(GIST_FILENAME_WATCHLOG, name)
+    const known = name === GIST_FILENAME_WATCHLOG || name === showsName
+    if (!known && year === undefined) continue
 
-  const isConsecutive = sorted.every(
-    (ep, i) => i === 0 || ep === sorted[i - 1] + 1,
-  )
+    const content = await storage.read(name)
+    if (content === undefined) continue
 
-  if (isConsecutive) {
-    return `S${season} E${sorted[0]}-${sorted[sorted.length - 1]}`
+    // Validated like the frontend does, so a file from a newer script
+    // stops the run instead of being overwritten in the old format
+    if (name === showsName) {
+      stored.shows = parseWatchlogShows(JSON.parse(content)).shows
+    } else if (year === undefined) {
+      stored.live = parseWatchlog(JSON.parse(content))
+    } else {
+      const raw = JSON.parse(content) as ArchiveFile
+      const parsed = parseWatchlogArchive(raw)
+      stored.archive.set(year, raw.plays)
+      stored.archiveItems.set(year, parsed.items)
+      if (!parsed.recap) stored.withoutRecap.push(year)
+    }
   }
 
-  return `S${season} E${sorted.join(',')}`
-}
-
-function enrichCalendar(
-  rawCalendar: RawCalendar,
-  seasonsMap: Map<string, Map<number, TraktSeason>>,
-  today: string,
-): CalendarItem[] {
-  const groupedEpisodes = groupCalendarEpisodes(rawCalendar.episodes)
-
-  const items: CalendarItem[] = [
-    ...groupedEpisodes.map((group): CalendarItem => {
-      const showSeasons = seasonsMap.get(group.show.ids.slug)
-      const seasonData = showSeasons?.get(group.season)
-      const poster =
-        getPosterUrl(seasonData?.images) ?? getPosterUrl(group.show.images)
-
-      const isSingleEpisode = group.episodes.length === 1
-      const type = isSingleEpisode ? 'episode' : 'season'
-      const trakt_url = buildShowUrl(
-        group.show.ids.slug,
-        group.season,
-        isSingleEpisode ? group.episodes[0] : undefined,
-      )
-
-      return {
-        type,
-        title: group.show.title,
-        subtitle: formatEpisodeSubtitle(group.season, group.episodes),
-        date: group.date,
-        ...(poster && { poster }),
-        trakt_url,
-        episode_type: group.episode_type,
-      }
-    }),
-    ...rawCalendar.movies.map((m): CalendarItem => {
-      const poster = getPosterUrl(m.movie.images)
-      return {
-        type: 'movie',
-        title: m.movie.title,
-        date: m.released,
-        ...(poster && { poster }),
-        trakt_url: `https://trakt.tv/movies/${m.movie.ids.slug}`,
-      }
-    }),
-  ]
-
-  // The request reaches a day back, so trim the past by zoned date here.
-  return items
-    .filter((item) => item.date >= today)
-    .sort((a, b) => a.date.localeCompare(b.date))
+  return stored
 }
 
 // ============================================================================
-// Gist API
+// GitHub Secrets
 // ============================================================================
 
-async function updateGist(data: WatchlogData): Promise<void> {
-  const response = await fetch(`${GITHUB_API_BASE}/gists/${GIST_ID}`, {
-    method: 'PATCH',
-    headers: {
-      Accept: 'application/vnd.github+json',
-      Authorization: `Bearer ${GH_TOKEN}`,
-      'X-GitHub-Api-Version': '2022-11-28',
-    },
-    body: JSON.stringify({
-      files: {
-        [GIST_FILENAME_WATCHLOG]: {
-          content: JSON.stringify(data, null, 2),
-        },
-      },
-    }),
-  })
-
-  if (!response.ok) {
-    const body = await response.text()
-    throw new Error(`GitHub API error: ${response.status} - ${body}`)
+/**
+ * The refresh token first: with it stored, a stale access token only costs
+ * the next run a 401 and another refresh.
+ */
+async function updateGitHubTokenSecrets(tokens: StoredTokens): Promise<void> {
+  const secrets = [
+    ['TRAKT_REFRESH_TOKEN', tokens.refresh_token],
+    ['TRAKT_ACCESS_TOKEN', tokens.access_token],
+    ['TRAKT_TOKEN_EXPIRES_AT', tokens.expires_at],
+  ] as const
+  for (const [name, value] of secrets) {
+    if (!value) continue
+    await github.updateSecret(name, value)
+    console.log(`Updated GitHub secret: ${name}`)
   }
 }
 
 // ============================================================================
-// GitHub Secrets API
+// Dry Run
 // ============================================================================
 
-interface GitHubPublicKey {
-  key_id: string
-  key: string
-}
-
-async function getRepoPublicKey(): Promise<GitHubPublicKey> {
-  const response = await fetch(
-    `${GITHUB_API_BASE}/repos/${GH_REPOSITORY}/actions/secrets/public-key`,
-    {
-      headers: {
-        Accept: 'application/vnd.github+json',
-        Authorization: `Bearer ${GH_TOKEN}`,
-        'X-GitHub-Api-Version': '2022-11-28',
-      },
-    },
-  )
-
-  if (!response.ok) {
-    const body = await response.text()
-    throw new Error(`Failed to get public key: ${response.status} - ${body}`)
-  }
-
-  return (await response.json()) as GitHubPublicKey
-}
-
-async function encryptSecret(
-  secret: string,
-  publicKey: string,
-): Promise<string> {
-  await libsodium.ready
-  const keyBytes = Uint8Array.from(atob(publicKey), (c) => c.charCodeAt(0))
-  const secretBytes = new TextEncoder().encode(secret)
-  const encrypted = libsodium.crypto_box_seal(secretBytes, keyBytes)
-  return Buffer.from(encrypted).toString('base64')
-}
-
-async function updateGitHubSecret(
-  name: string,
-  value: string,
-  publicKey: GitHubPublicKey,
-): Promise<void> {
-  const encryptedValue = await encryptSecret(value, publicKey.key)
-
-  const response = await fetch(
-    `${GITHUB_API_BASE}/repos/${GH_REPOSITORY}/actions/secrets/${name}`,
-    {
-      method: 'PUT',
-      headers: {
-        Accept: 'application/vnd.github+json',
-        Authorization: `Bearer ${GH_TOKEN}`,
-        'X-GitHub-Api-Version': '2022-11-28',
-      },
-      body: JSON.stringify({
-        encrypted_value: encryptedValue,
-        key_id: publicKey.key_id,
-      }),
-    },
-  )
+const describeItem = (item: WatchlogItem) =>
+  `${item.title}${item.subtitle ? ` · ${item.subtitle}` : ''} (${item.watched_at})`
 
-  if (!response.ok) {
-    const body = await response.text()
-    throw new Error(
-      `Failed to update secret ${name}: ${response.status} - ${body}`,
-    )
+function summarizeActivity({ from, counts }: WatchlogActivity) {
+  return {
+    from,
+    days: counts.length,
+    plays: counts.reduce((sum, count) => sum + count, 0),
   }
-
-  console.log(`Updated GitHub secret: ${name}`)
 }
 
-async function updateGitHubTokenSecrets(
-  tokens: TraktTokenResponse,
-): Promise<void> {
-  const publicKey = await getRepoPublicKey()
-  await updateGitHubSecret('TRAKT_ACCESS_TOKEN', tokens.access_token, publicKey)
-  await updateGitHubSecret(
-    'TRAKT_REFRESH_TOKEN',
-    tokens.refresh_token,
-    publicKey,
-  )
+function diffWatchlog(previous: WatchlogData | undefined, next: WatchlogData) {
+  return [
+    diffList(
+      'items',
+      previous?.items ?? [],
+      next.items,
+      (item) => `${item.trakt_url}|${item.watched_at}`,
+      describeItem,
+    ),
+    diffList(
+      'calendar',
+      previous?.calendar ?? [],
+      next.calendar,
+      (item) => `${item.trakt_url}|${item.date}`,
+      (item) =>
+        `${item.date} ${item.title}${item.subtitle ? ` · ${item.subtitle}` : ''}`,
+    ),
+    diffList(
+      'watchlist',
+      previous?.watchlist ?? [],
+      next.watchlist,
+      (item) => item.trakt_url,
+      (item) =>
+        `${item.title}${item.subtitle ? ` · ${item.subtitle}` : ''} (listed ${item.listed_at.slice(0, 10)})`,
+    ),
+    diffList(
+      'progress',
+      previous?.progress ?? [],
+      next.progress,
+      (show) => `${show.trakt_url}|${show.completed}/${show.aired}`,
+      (show) =>
+        `${show.title} ${show.completed}/${show.aired}, next ${show.next_episode.subtitle}`,
+    ),
+    diffValues('stats', previous?.stats, next.stats),
+    // The day-by-day series would be one unreadable line; its shape will do
+    diffValues(
+      'activity',
+      previous?.activity && summarizeActivity(previous.activity),
+      next.activity && summarizeActivity(next.activity),
+    ),
+    diffValues('archive_years', previous?.archive_years, next.archive_years),
+  ]
 }
 
 // ============================================================================
@@ -758,70 +827,277 @@ async function updateGitHubTokenSecrets(
 // ============================================================================
 
 async function main() {
+  installFixtures('sync-trakt')
+  const dryRun = readDryRun()
+  if (dryRun) console.log(`Dry run: output goes to ${dryRun.outDir}`)
+  const storage = createStorage(github)
+  // Required up front by every run that may refresh, not just the one that
+  // does: without it there is nowhere safe to put the new tokens if the
+  // secrets cannot take them, and a run that refreshes is too late to say so
+  const recoveryKey =
+    dryRun || storage.local ? undefined : requireEnv('TRAKT_RECOVERY_KEY')
+
   const client = new TraktClient(
     TRAKT_CLIENT_ID,
     TRAKT_CLIENT_SECRET,
     TRAKT_ACCESS_TOKEN,
     TRAKT_REFRESH_TOKEN,
+    TRAKT_TOKEN_EXPIRES_AT,
   )
 
-  // Phase 0: Ensure a token is valid before proceeding
-  console.log('Validating token...')
-  await client.ensureValidToken()
-
-  // Phase 1: Fetch history, stats, calendar in parallel
-  console.log('Fetching history, stats, and calendar...')
-  const [history, stats, rawCalendar] = await Promise.all([
-    client.getHistory(),
-    client.getStats(),
-    client.getRawCalendar(),
-  ])
-  console.log(
-    `History: ${history.length}, Calendar: ${rawCalendar.episodes.length} episodes, ${rawCalendar.movies.length} movies`,
-  )
-  console.log(
-    `Stats: ${stats.movies_watched} movies, ${stats.shows_watched} shows, ${stats.total_hours}h`,
-  )
+  // The accounting goes out on a failed run too, where it matters most
+  try {
+    // Phase 0: Ensure a token is valid before proceeding
+    console.log('Validating token...')
+    await client.ensureValidToken(recoveryKey)
 
-  // Phase 2: Group episodes by season + collect all slugs
-  console.log('Grouping episodes...')
-  const referenceDate = new Date()
-  const grouped = groupHistory(history, referenceDate)
-  const slugs = collectUniqueSlugs(grouped, rawCalendar)
-  console.log(
-    `Grouped into ${grouped.length} items, ${slugs.length} unique shows`,
-  )
+    // Phase 1: Fetch history, stats, calendar, watchlist and the archive
+    console.log(
+      `Fetching history, stats, calendar, watchlist, and archive from ${storage.label}...`,
+    )
+    const [history, stats, rawCalendar, rawWatchlist, stored] =
+      await Promise.all([
+        client.getHistory(),
+        client.getStats(),
+        client.getRawCalendar(),
+        client.getWatchlist(),
+        readStored(storage),
+      ])
+    const { archive } = stored
+    console.log(
+      `History: ${history.length}, Calendar: ${rawCalendar.episodes.length} episodes, ${rawCalendar.movies.length} movies, Watchlist: ${rawWatchlist.length}`,
+    )
+    console.log(
+      `Stats: ${stats.movies_watched} movies, ${stats.shows_watched} shows, ${stats.extended?.episodes_watched} episodes, ${stats.total_hours}h`,
+    )
 
-  // Phase 3: Fetch seasons and ratings in parallel
-  console.log('Fetching seasons and ratings...')
-  const [seasonsMap, ratings] = await Promise.all([
-    client.getShowSeasonsParallel(slugs),
-    client.getRatings(),
-  ])
-
-  // Phase 4: Enrich history and calendar
-  const items = enrichItems(grouped, seasonsMap, ratings, referenceDate).slice(
-    0,
-    OUTPUT_ITEMS_LIMIT,
-  )
-  const calendar = enrichCalendar(
-    rawCalendar,
-    seasonsMap,
-    zonedDate(referenceDate),
-  )
-  console.log(`Output: ${items.length} items, ${calendar.length} calendar`)
+    // Phase 2: Page through everything played since the newest archived play
+    const cursor = archiveCursor(archive)
+    console.log(
+      cursor
+        ? `Fetching plays since ${cursor}...`
+        : 'No archive yet, fetching the whole history...',
+    )
+    const touched = appendPlays(archive, await client.getHistorySince(cursor))
+    console.log(
+      `Archive: ${archive.size} years, ${touched.length} changed (${touched.join(', ') || 'none'})`,
+    )
+    const rewrite = [...new Set([...touched, ...stored.withoutRecap])].sort(
+      (a, b) => b - a,
+    )
+    if (rewrite.length > touched.length) {
+      console.log(
+        `Archive: ${rewrite.length - touched.length} more without a recap yet`,
+      )
+    }
 
-  // Phase 5: Update Gist
-  const data: WatchlogData = {
-    updated_at: new Date().toISOString(),
-    items,
-    stats,
-    calendar,
-  }
+    // Phase 3: Group episodes by season + collect all slugs
+    console.log('Grouping episodes...')
+    const referenceDate = new Date()
+    const liveDate = (watchedAt: string) =>
+      formatWatchedAtAuto(watchedAt, referenceDate)
+    const grouped = groupHistory(history, liveDate)
+    const archiveGrouped = rewrite.map((year) =>
+      groupHistory(archive.get(year) ?? [], archivePeriod),
+    )
+    const slugs = collectUniqueSlugs([grouped, ...archiveGrouped], rawCalendar)
+    console.log(
+      `Grouped into ${grouped.length} items, ${slugs.length} unique shows`,
+    )
+    // Season posters of shows with no new plays carry over from the shows
+    // file, so only its first run fetches seasons for the whole archive
+    const plays = [...archive.values()].flat()
+    if (!stored.shows) {
+      const before = slugs.length
+      for (const play of plays) {
+        if (play.show && !slugs.includes(play.show.ids.slug)) {
+          slugs.push(play.show.ids.slug)
+        }
+      }
+      console.log(
+        `No shows file yet: ${slugs.length - before} more shows from the archive`,
+      )
+    }
+
+    // Phase 4: Fetch seasons, ratings, comments and show progress in parallel
+    console.log('Fetching seasons, ratings, comments, and progress...')
+    const [seasonsMap, ratings, comments, recentShows] = await Promise.all([
+      client.getShowSeasonsParallel(slugs),
+      client.getRatings(),
+      client.getComments(),
+      client.getRecentProgress(),
+    ])
+
+    // Phase 5: Enrich history, archive, calendar, watchlist and progress
+    const playLog = collectPlays(plays)
+    const items = enrichItems(
+      grouped,
+      seasonsMap,
+      ratings,
+      comments,
+      playLog,
+      liveDate,
+    ).slice(0, OUTPUT_ITEMS_LIMIT)
+    const calendar = enrichCalendar(
+      rawCalendar,
+      seasonsMap,
+      zonedDate(referenceDate),
+    )
+    const watchlist = enrichWatchlist(rawWatchlist)
+    const progress = enrichProgress(recentShows, seasonsMap)
+    // From the archive, which holds every play: the live list stops at 100
+    const activity = countDailyPlays(
+      plays,
+      zonedDate(referenceDate),
+      ACTIVITY_DAYS,
+    )
+    console.log(
+      `Output: ${items.length} items, ${calendar.length} calendar, ${watchlist.length} watchlist, ${progress.length}/${recentShows.length} recent shows in progress`,
+    )
+
+    const updatedAt = new Date().toISOString()
+    const archiveFiles = Object.fromEntries(
+      rewrite.map((year, index): [string, ArchiveFile] => [
+        archiveFilename(GIST_FILENAME_WATCHLOG, year),
+        {
+          schema_version: WATCHLOG_SCHEMA_VERSION,
+          updated_at: updatedAt,
+          year,
+          items: enrichItems(
+            archiveGrouped[index],
+            seasonsMap,
+            ratings,
+            comments,
+            playLog,
+            archiveLabel,
+          ),
+          recap: buildRecap(archive.get(year) ?? [], ratings, seasonsMap),
+          plays: archive.get(year) ?? [],
+        },
+      ]),
+    )
+    // Rewritten every run, like the live file: ratings change without plays
+    const showsName = showsFilename(GIST_FILENAME_WATCHLOG)
+    const showsFile: WatchlogShows = {
+      schema_version: WATCHLOG_SCHEMA_VERSION,
+      updated_at: updatedAt,
+      shows: buildShows(plays, ratings, seasonsMap, stored.shows ?? []),
+    }
+
+    // Phase 6: Write the live file, its feeds, the shows and every changed
+    // year at once
+    const data: WatchlogData = {
+      schema_version: WATCHLOG_SCHEMA_VERSION,
+      updated_at: updatedAt,
+      items,
+      stats,
+      calendar,
+      watchlist,
+      progress,
+      activity,
+      archive_years: [...archive.keys()].sort((a, b) => b - a),
+    }
+    const calendarName = feedFilename(GIST_FILENAME_WATCHLOG, 'ics')
+    const calendarFeed = buildCalendar(
+      'My Premieres',
+      calendarEvents(calendar),
+      new Date(updatedAt),
+    )
 
-  console.log('Updating Gist...')
-  await updateGist(data)
-  console.log('Done!')
+    // The feed only learns what this run added; the rest is the last feed
+    const atomName = feedFilename(GIST_FILENAME_WATCHLOG, 'atom')
+    const previousEntries = readFeedEntries(
+      (await storage.read(atomName)) ?? '',
+    )
+    const entries = mergeEntries(
+      previousEntries,
+      watchedEntries(stored.live?.items ?? [], items, updatedAt),
+    )
+    const atomFeed = buildFeed(
+      {
+        id: `https://github.com/${GH_REPOSITORY}#${atomName}`,
+        title: 'Recently Watched',
+        author: GH_REPOSITORY.split('/')[0],
+        entries,
+      },
+      new Date(updatedAt),
+    )
+
+    if (dryRun) {
+      const files: DryRunFile[] = [
+        {
+          name: GIST_FILENAME_WATCHLOG,
+          data,
+          diff: diffWatchlog(stored.live, data),
+        },
+        {
+          name: calendarName,
+          data: calendarFeed,
+          // Made from the calendar alone, whose diff is the feed's diff
+          diff: [[`## events: ${calendar.length}, see the calendar above`]],
+        },
+        {
+          name: atomName,
+          data: atomFeed,
+          diff: [
+            diffList(
+              'entries',
+              previousEntries,
+              entries,
+              (entry) => entry.id,
+              (entry) => `${entry.title} (${entry.updated})`,
+            ),
+          ],
+        },
+        {
+          name: showsName,
+          data: showsFile,
+          diff: [
+            diffList(
+              'shows',
+              stored.shows ?? [],
+              showsFile.shows,
+              (show) => show.slug,
+              (show) =>
+                `${show.title}: ${show.seasons.map((s) => s.subtitle).join(', ')}`,
+            ),
+          ],
+        },
+        ...Object.entries(archiveFiles).map(([name, file]) => ({
+          name,
+          data: file,
+          diff: [
+            diffList(
+              'items',
+              stored.archiveItems.get(file.year) ?? [],
+              file.items,
+              (item) => `${item.trakt_url}|${item.watched_at}`,
+              describeItem,
+            ),
+          ],
+        })),
+      ]
+      await writeDryRun(dryRun, files)
+      console.log('Done, nothing written to GitHub')
+      return
+    }
+
+    console.log(`Writing to ${storage.label}...`)
+    await storage.write({
+      ...Object.fromEntries(
+        Object.entries({
+          [GIST_FILENAME_WATCHLOG]: data,
+          [showsName]: showsFile,
+          ...archiveFiles,
+        }).map(([name, file]) => [name, JSON.stringify(file, null, 2)]),
+      ),
+      [calendarName]: calendarFeed,
+      [atomName]: atomFeed,
+    })
+    console.log('Done!')
+  } finally {
+    console.log(client.summary())
+  }
 }
 
 main().catch((error) => {
@@ -1,5 +1,5 @@
 /**
- * Sync Telegram event announcements to GitHub Gist
+ * Sync Telegram event announcements to GitHub Gist (or another storage backend)
  *
  * Reads public channel previews (t.me/s/<channel>), hands fresh posts to an
  * LLM, and merges the returned delta into an event listing in a Gist for
@@ -10,11 +10,37 @@
  * - Cursors live next to the events, so a failed run writes nothing and the
  *   next run re-reads the same posts
  * - Photos are copied into a release asset, since Telegram's own urls expire,
- *   and measured on the way so the frontend can reserve the tile's photo box
+ *   and measured on the way so the frontend can reserve the tile's photo box;
+ *   on the local backend they keep their Telegram urls, the release untouched
+ * - The listing is also published as an .ics feed keyed by event id, so a
+ *   subscribed calendar updates and drops events instead of duplicating them.
+ *   A change bumps the event's SEQUENCE and LAST-MODIFIED, for the clients
+ *   that keep a cached copy per UID. The feed holds what the listing holds:
+ *   an event leaves both the day after it ends, so subscribers keep no past
+ *   events, on purpose - the feed is what is coming up, not a diary
+ * - New events also land in an Atom feed, which keeps its older entries
+ * - `--dry-run` / `--out <dir>`: local files and a diff, no GitHub writes
  */
 
 import { readFile } from 'node:fs/promises'
+import { diffList, diffValues, readDryRun, writeDryRun } from './lib/dry-run'
+import { requireEnv } from './lib/env'
+import { createGitHubClient, GitHubError } from './lib/github'
+import {
+  buildFeed,
+  mergeEntries,
+  readFeedEntries,
+  type AtomEntry,
+} from './lib/atom'
+import { buildCalendar, type IcalEvent } from './lib/ical'
+import { installFixtures } from './lib/fixtures'
+import { createStorage, type Storage } from './lib/storage'
+import {
+  WHATSNEXT_SCHEMA_VERSION,
+  parseWhatsnext,
+} from '@/features/whatsnext/lib/schema'
 import type { WhatsnextData, WhatsnextEvent } from '@/features/whatsnext/types'
+import { feedFilename } from '@/shared/lib/feeds'
 import { zonedDate, withWeekday } from '@/shared/lib/zoned-date'
 
 // ============================================================================
@@ -22,8 +48,7 @@ import { zonedDate, withWeekday } from '@/shared/lib/zoned-date'
 // ============================================================================
 
 const TELEGRAM_PREVIEW_BASE = 'https://t.me/s'
-const GITHUB_API_BASE = 'https://api.github.com'
-const GITHUB_UPLOADS_BASE = 'https://uploads.github.com'
+const TELEGRAM_POST_BASE = 'https://t.me'
 const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions'
 
 // One release holds every photo; the sweep keeps it under the 1000-asset cap.
@@ -43,30 +68,16 @@ const PROMPT_MARKER = '<!-- tail -->'
 // Environment
 // ============================================================================
 
-function requireEnv(name: string): string {
-  const value = process.env[name]
-  if (!value) {
-    console.error(`Missing required environment variable: ${name}`)
-    process.exit(1)
-  }
-  return value
-}
-
 const CHANNELS = requireEnv('WHATSNEXT_CHANNELS')
   .split(',')
   .map((c) => c.trim())
   .filter(Boolean)
 const OPENROUTER_API_KEY = requireEnv('OPENROUTER_API_KEY')
-const GIST_ID = requireEnv('GIST_ID')
 const GIST_FILENAME_WHATSNEXT = requireEnv('GIST_FILENAME_WHATSNEXT')
-const GH_TOKEN = requireEnv('GH_TOKEN')
 const GH_REPOSITORY = requireEnv('GH_REPOSITORY')
 
-const GH_HEADERS = {
-  Accept: 'application/vnd.github+json',
-  Authorization: `Bearer ${GH_TOKEN}`,
-  'X-GitHub-Api-Version': '2022-11-28',
-}
+// Reads GH_TOKEN on the first call that needs it
+const github = createGitHubClient()
 
 // ============================================================================
 // Telegram Preview
@@ -472,6 +483,37 @@ function toStored(
   }
 }
 
+/** What the calendar shows of an event, to tell a real rewrite from a repeat */
+const eventContent = (event: WhatsnextEvent) =>
+  JSON.stringify([
+    event.date,
+    event.date_end,
+    event.title,
+    event.description,
+    event.source_posts,
+  ])
+
+/**
+ * The rewritten event stamped for the calendar: a new one with `now`, a
+ * changed one with `now` and the next revision, one the model repeated word
+ * for word with what it had.
+ */
+function revise(
+  stored: WhatsnextEvent,
+  known: WhatsnextEvent | undefined,
+  now: string,
+): WhatsnextEvent {
+  if (!known) return { ...stored, updated_at: now }
+  if (eventContent(stored) === eventContent(known)) {
+    return {
+      ...stored,
+      ...(known.updated_at && { updated_at: known.updated_at }),
+      ...(known.revision && { revision: known.revision }),
+    }
+  }
+  return { ...stored, updated_at: now, revision: (known.revision ?? 0) + 1 }
+}
+
 function nextId(post: string, counters: Map<string, number>): string {
   const next = (counters.get(post) ?? 0) + 1
   counters.set(post, next)
@@ -483,6 +525,7 @@ function applyDelta(
   delta: ModelDelta,
   posts: TelegramPost[],
   today: string,
+  now: string,
 ): WhatsnextEvent[] {
   const byId = new Map(existing.map((event) => [event.id, event]))
   const sent = new Set(posts.map((post) => post.id))
@@ -534,7 +577,10 @@ function applyDelta(
       (yieldByPost.get(post) === 1 ? photoByPost.get(post) : undefined)
 
     // A photo arriving from Telegram is measured later, when it is copied into the release.
-    byId.set(id, toStored(id, entry, photo, known?.photo_ratio))
+    byId.set(
+      id,
+      revise(toStored(id, entry, photo, known?.photo_ratio), known, now),
+    )
   }
 
   // Cancels last, so an explicit cancellation wins over a same-run rewrite.
@@ -577,12 +623,6 @@ function applyDelta(
 
 const ASSET_BASE = `https://github.com/${GH_REPOSITORY}/releases/download/${MEDIA_RELEASE_TAG}/`
 
-interface ReleaseAsset {
-  id: number
-  name: string
-  created_at: string
-}
-
 // GitHub caps a release at 1000 assets. The rest is headroom: a run uploads
 // before it sweeps, so it must never meet the cap mid-copy.
 const ASSET_LIMIT = 900
@@ -594,16 +634,7 @@ function assetName(eventId: string): string {
 
 /** Id of the one media release, which this script only ever reads. */
 async function readMediaRelease(): Promise<number> {
-  const found = await fetch(
-    `${GITHUB_API_BASE}/repos/${GH_REPOSITORY}/releases/tags/${MEDIA_RELEASE_TAG}`,
-    { headers: GH_HEADERS },
-  )
-  if (!found.ok) {
-    throw new Error(
-      `${MEDIA_RELEASE_TAG} release: ${found.status} - ${await found.text()}`,
-    )
-  }
-  return ((await found.json()) as { id: number }).id
+  return github.getReleaseId(MEDIA_RELEASE_TAG)
 }
 
 /**
@@ -655,33 +686,28 @@ async function uploadPhoto(
   }
 
   const bytes = new Uint8Array(await image.arrayBuffer())
-  const response = await fetch(
-    `${GITHUB_UPLOADS_BASE}/repos/${GH_REPOSITORY}/releases/${releaseId}/assets?name=${name}`,
-    {
-      method: 'POST',
-      headers: {
-        ...GH_HEADERS,
-        'Content-Type': image.headers.get('content-type') ?? 'image/jpeg',
-      },
-      body: bytes,
-    },
-  )
-  if (!response.ok) {
-    const detail = await response.text()
+  try {
+    const asset = await github.uploadReleaseAsset(
+      releaseId,
+      name,
+      bytes,
+      image.headers.get('content-type') ?? 'image/jpeg',
+    )
+    return { url: asset.browser_download_url, ratio: jpegRatio(bytes) }
+  } catch (error) {
     // A run that dies before the gist write leaves the asset but not the
     // advanced cursor, so the next run mints that id again. Throwing here
     // would wedge every run after it on the same name.
-    if (response.status === 422 && detail.includes('already_exists')) {
+    if (
+      error instanceof GitHubError &&
+      error.status === 422 &&
+      error.body.includes('already_exists')
+    ) {
       console.warn(`${name}: already in the release, kept as is`)
       return { url: `${ASSET_BASE}${name}`, ratio: jpegRatio(bytes) }
     }
-    throw new Error(`GitHub API error: ${response.status} - ${detail}`)
-  }
-
-  const { browser_download_url } = (await response.json()) as {
-    browser_download_url: string
+    throw error
   }
-  return { url: browser_download_url, ratio: jpegRatio(bytes) }
 }
 
 /** The events again, with every Telegram photo now pointing at the release. */
@@ -694,7 +720,7 @@ async function rehostPhotos(
 
   for (const event of events) {
     // Copied by an earlier run, so it is never re-read either: a photo older
-    // than photo_ratio keeps none, which is why the frontend tolerates that
+    // than photo_ratio keeps none, which the whatsnext schema allows for
     if (!event.photo || event.photo.startsWith(ASSET_BASE)) {
       rehosted.push(event)
       continue
@@ -709,25 +735,6 @@ async function rehostPhotos(
   return rehosted
 }
 
-/** Every asset of the release, across as many pages as it takes. */
-async function readAssets(releaseId: number): Promise<ReleaseAsset[]> {
-  const assets: ReleaseAsset[] = []
-  for (let page = 1; ; page++) {
-    const response = await fetch(
-      `${GITHUB_API_BASE}/repos/${GH_REPOSITORY}/releases/${releaseId}/assets?per_page=100&page=${page}`,
-      { headers: GH_HEADERS },
-    )
-    if (!response.ok) {
-      throw new Error(
-        `GitHub API error: ${response.status} - ${await response.text()}`,
-      )
-    }
-    const batch = (await response.json()) as ReleaseAsset[]
-    assets.push(...batch)
-    if (batch.length < 100) return assets
-  }
-}
-
 /**
  * Frees room once the release nears the cap and only then, oldest orphans
  * first. Below the limit nothing is deleted: an orphan costs a slot and
@@ -739,7 +746,7 @@ async function sweepAssets(
   releaseId: number,
   events: WhatsnextEvent[],
 ): Promise<void> {
-  const assets = await readAssets(releaseId)
+  const assets = await github.listReleaseAssets(releaseId)
   if (assets.length <= ASSET_LIMIT) return
 
   const live = new Set(
@@ -753,10 +760,13 @@ async function sweepAssets(
     .slice(0, Math.max(0, assets.length - ASSET_LIMIT))
 
   for (const asset of doomed) {
-    await fetch(
-      `${GITHUB_API_BASE}/repos/${GH_REPOSITORY}/releases/assets/${asset.id}`,
-      { method: 'DELETE', headers: GH_HEADERS },
-    )
+    // Left for the next sweep: an orphan that outlives this run costs a slot
+    try {
+      await github.deleteReleaseAsset(asset.id)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn(`${asset.name}: not swept, ${message}`)
+    }
   }
 
   console.log(
@@ -765,46 +775,86 @@ async function sweepAssets(
 }
 
 // ============================================================================
-// Gist API
+// Storage
 // ============================================================================
 
-async function readGist(): Promise<WhatsnextData> {
-  const response = await fetch(`${GITHUB_API_BASE}/gists/${GIST_ID}`, {
-    headers: GH_HEADERS,
-  })
-
-  if (!response.ok) {
-    throw new Error(
-      `GitHub API error: ${response.status} - ${await response.text()}`,
-    )
-  }
+/** The last listing, validated: a newer schema stops the run, not the data */
+async function readState(storage: Storage): Promise<WhatsnextData> {
+  const content = await storage.read(GIST_FILENAME_WHATSNEXT)
+  return content
+    ? parseWhatsnext(JSON.parse(content))
+    : {
+        schema_version: WHATSNEXT_SCHEMA_VERSION,
+        updated_at: '',
+        cursors: {},
+        events: [],
+      }
+}
 
-  const gist = (await response.json()) as {
-    files: Record<string, { content: string } | undefined>
-  }
-  const file = gist.files[GIST_FILENAME_WHATSNEXT]
+// ============================================================================
+// Feeds
+// ============================================================================
 
-  return file
-    ? (JSON.parse(file.content) as WhatsnextData)
-    : { updated_at: '', cursors: {}, events: [] }
-}
+const FEED_NAME = 'Whatsnext'
 
-async function updateGist(data: WhatsnextData): Promise<void> {
-  const response = await fetch(`${GITHUB_API_BASE}/gists/${GIST_ID}`, {
-    method: 'PATCH',
-    headers: GH_HEADERS,
-    body: JSON.stringify({
-      files: {
-        [GIST_FILENAME_WHATSNEXT]: { content: JSON.stringify(data, null, 2) },
-      },
-    }),
+/** One all-day event per entry, spanning date..date_end when it has one */
+function toIcalEvents(events: WhatsnextEvent[]): IcalEvent[] {
+  return events.map((event) => {
+    const sources = event.source_posts.map(
+      (post) => `${TELEGRAM_POST_BASE}/${post}`,
+    )
+    return {
+      // Ids are minted once per entry, so an update keeps its calendar slot
+      uid: `${event.id}@t.me`,
+      ...(event.revision && { sequence: event.revision }),
+      ...(event.updated_at && { modified: event.updated_at }),
+      start: event.date,
+      ...(event.date_end && { end: event.date_end }),
+      summary: event.title,
+      description: [event.description, ...sources].join('\n\n'),
+      ...(sources.length > 0 && { url: sources[0] }),
+    }
   })
+}
 
-  if (!response.ok) {
-    throw new Error(
-      `GitHub API error: ${response.status} - ${await response.text()}`,
-    )
-  }
+/** Events the stored listing did not have, stamped with this run */
+function newEventEntries(
+  previous: WhatsnextEvent[],
+  events: WhatsnextEvent[],
+  updated: string,
+): AtomEntry[] {
+  const known = new Set(previous.map((event) => event.id))
+  return events
+    .filter((event) => !known.has(event.id))
+    .map((event) => ({
+      // `<channel>/<postId>#<n>` is a t.me link already, fragment included
+      id: `${TELEGRAM_POST_BASE}/${event.id}`,
+      title: event.title,
+      link: `${TELEGRAM_POST_BASE}/${event.source_posts[0] ?? event.id.split('#')[0]}`,
+      updated,
+      summary: `${withWeekday(event.date)}${event.date_end ? ` – ${withWeekday(event.date_end)}` : ''}. ${event.description}`,
+      ...(event.photo && { enclosure: event.photo }),
+    }))
+}
+
+/** The last feed's entries plus this run's, as the document to write */
+function atomFeed(
+  previous: AtomEntry[],
+  fresh: AtomEntry[],
+  feedName: string,
+  now: Date,
+): { entries: AtomEntry[]; xml: string } {
+  const entries = mergeEntries(previous, fresh)
+  const xml = buildFeed(
+    {
+      id: `https://github.com/${GH_REPOSITORY}#${feedName}`,
+      title: FEED_NAME,
+      author: GH_REPOSITORY.split('/')[0],
+      entries,
+    },
+    now,
+  )
+  return { entries, xml }
 }
 
 // ============================================================================
@@ -812,9 +862,14 @@ async function updateGist(data: WhatsnextData): Promise<void> {
 // ============================================================================
 
 async function main(): Promise<void> {
+  installFixtures('sync-whatsnext')
+  const dryRun = readDryRun()
+  if (dryRun) console.log(`Dry run: output goes to ${dryRun.outDir}`)
+  const storage = createStorage(github)
+
   // Phase 0: Read the stored listing
-  console.log('Reading Gist...')
-  const state = await readGist()
+  console.log(`Reading ${storage.label}...`)
+  const state = await readState(storage)
   console.log(
     `Stored: ${state.events.length} events, cursors for ${Object.keys(state.cursors).length} channels`,
   )
@@ -832,7 +887,8 @@ async function main(): Promise<void> {
   const readable = posts.filter((post) => post.text)
   console.log(`Posts: ${posts.length} new, ${readable.length} readable`)
 
-  const today = zonedDate(new Date())
+  const updatedAt = new Date().toISOString()
+  const today = zonedDate(new Date(updatedAt))
   let events = state.events
 
   if (readable.length === 0) {
@@ -855,25 +911,109 @@ async function main(): Promise<void> {
       `Delta: ${delta.entries_to_write.length - updated} new, ${updated} updated, ${delta.entries_to_cancel.length} cancelled`,
     )
 
-    events = applyDelta(state.events, delta, readable, today)
+    events = applyDelta(state.events, delta, readable, today, updatedAt)
     console.log(`Events: ${events.length} after merge and expiry`)
   }
 
-  // Phase 4: Copy fresh photos out of Telegram before their urls expire
-  const releaseId = await readMediaRelease()
-  events = await rehostPhotos(releaseId, events)
+  // The calendar carries no photos, so it is final before the release step
+  const calendarName = feedFilename(GIST_FILENAME_WHATSNEXT, 'ics')
+  const calendarFeed = buildCalendar(
+    FEED_NAME,
+    toIcalEvents(events),
+    new Date(updatedAt),
+  )
+  // The Atom feed only learns what this run added; the rest is the last feed
+  const atomName = feedFilename(GIST_FILENAME_WHATSNEXT, 'atom')
+  const previousEntries = readFeedEntries((await storage.read(atomName)) ?? '')
+
+  // A dry run stops before the release: uploads are writes too, so its
+  // output keeps the Telegram urls a real run would copy out
+  if (dryRun) {
+    const data: WhatsnextData = {
+      schema_version: WHATSNEXT_SCHEMA_VERSION,
+      updated_at: updatedAt,
+      cursors,
+      events,
+    }
+    const atom = atomFeed(
+      previousEntries,
+      newEventEntries(state.events, events, updatedAt),
+      atomName,
+      new Date(updatedAt),
+    )
+    await writeDryRun(dryRun, [
+      {
+        name: GIST_FILENAME_WHATSNEXT,
+        data,
+        diff: [
+          diffList(
+            'events',
+            state.events,
+            events,
+            (event) => event.id,
+            (event) =>
+              `${event.date}${event.date_end ? `..${event.date_end}` : ''} ${event.title} [${event.id}]`,
+          ),
+          diffValues('cursors', state.cursors, cursors),
+        ],
+      },
+      {
+        name: calendarName,
+        data: calendarFeed,
+        // Made from the events alone, whose diff is the feed's diff
+        diff: [[`## events: ${events.length}, see the listing above`]],
+      },
+      {
+        name: atomName,
+        data: atom.xml,
+        diff: [
+          diffList(
+            'entries',
+            previousEntries,
+            atom.entries,
+            (entry) => entry.id,
+            (entry) => `${entry.title} (${entry.updated})`,
+          ),
+        ],
+      },
+    ])
+    console.log('Done, nothing written to GitHub')
+    return
+  }
+
+  // Phase 4: Copy fresh photos out of Telegram before their urls expire.
+  // The release is production's, so a local run keeps the Telegram urls
+  // like a dry run does, and sweeps nothing against its own event list
+  let releaseId: number | undefined
+  if (storage.local) {
+    console.log('Local backend: photos keep their Telegram urls')
+  } else {
+    releaseId = await readMediaRelease()
+    events = await rehostPhotos(releaseId, events)
+  }
 
-  // Phase 5: Update Gist
+  // Phase 5: Write the listing and its feeds, the Atom one with the copies
+  const atom = atomFeed(
+    previousEntries,
+    newEventEntries(state.events, events, updatedAt),
+    atomName,
+    new Date(updatedAt),
+  )
   const data: WhatsnextData = {
-    updated_at: new Date().toISOString(),
+    schema_version: WHATSNEXT_SCHEMA_VERSION,
+    updated_at: updatedAt,
     cursors,
     events,
   }
-  console.log('Updating Gist...')
-  await updateGist(data)
+  console.log(`Writing to ${storage.label}...`)
+  await storage.write({
+    [GIST_FILENAME_WHATSNEXT]: JSON.stringify(data, null, 2),
+    [calendarName]: calendarFeed,
+    [atomName]: atom.xml,
+  })
 
   // Phase 6: Sweep, after the write that decided which photos are still live
-  await sweepAssets(releaseId, events)
+  if (releaseId !== undefined) await sweepAssets(releaseId, events)
   console.log('Done!')
 }
 
@@ -3,6 +3,8 @@ import { AppLayout } from '@/layouts/AppLayout'
 import { ErrorBoundary } from '@/shared'
 import Home from '@/pages/Home'
 import Watchlog from '@/pages/Watchlog'
+import WatchlogShow from '@/pages/WatchlogShow'
+import WatchlogYear from '@/pages/WatchlogYear'
 import Whatsnext from '@/pages/Whatsnext'
 
 function App() {
@@ -13,6 +15,8 @@ function App() {
           <Route element={<AppLayout />}>
             <Route path="/" element={<Home />} />
             <Route path="/watchlog" element={<Watchlog />} />
+            <Route path="/watchlog/:year" element={<WatchlogYear />} />
+            <Route path="/watchlog/show/:slug" element={<WatchlogShow />} />
             <Route path="/whatsnext" element={<Whatsnext />} />
           </Route>
         </Routes>
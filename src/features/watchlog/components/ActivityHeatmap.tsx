@@ -0,0 +1,85 @@
+import { useMemo } from 'react'
+import { format } from 'date-fns'
+import { civilDate, cn } from '@/shared'
+import { activityWeeks, type ActivityDay } from '../lib/activity'
+import type { WatchlogActivity } from '../types'
+
+const LEVEL_CLASSES = [
+  'bg-secondary',
+  'bg-primary/25',
+  'bg-primary/50',
+  'bg-primary/75',
+  'bg-primary',
+] as const
+
+// Every other row, like the contributions graph
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', '']
+
+function describeDay({ date, count }: ActivityDay): string {
+  const day = format(civilDate(date), 'EEE, MMM d, yyyy')
+  if (count === 0) return `No plays on ${day}`
+  return `${count} ${count === 1 ? 'play' : 'plays'} on ${day}`
+}
+
+export function ActivityHeatmap({ activity }: { activity: WatchlogActivity }) {
+  const weeks = useMemo(() => activityWeeks(activity), [activity])
+  const total = activity.counts.reduce((sum, count) => sum + count, 0)
+
+  return (
+    <div className="p-4 sm:p-6 card-surface">
+      <div className="overflow-x-auto">
+        <div className="inline-flex gap-2">
+          {/* Weekday labels, below the month row */}
+          <div className="flex flex-col gap-[3px] pt-5 text-[10px] leading-3 text-muted-foreground">
+            {WEEKDAY_LABELS.map((label, index) => (
+              <span key={index} className="h-3">
+                {label}
+              </span>
+            ))}
+          </div>
+
+          {weeks.map((week, index) => {
+            // A month is named over the week its 1st falls in
+            const first = week.find((day) => day?.date.endsWith('-01'))
+            return (
+              <div key={index} className="flex flex-col gap-[3px]">
+                <span className="h-4 mb-1 text-[10px] leading-4 text-muted-foreground whitespace-nowrap">
+                  {first && format(civilDate(first.date), 'MMM')}
+                </span>
+                {week.map((day, row) =>
+                  day ? (
+                    <div
+                      key={row}
+                      title={describeDay(day)}
+                      role="img"
+                      aria-label={describeDay(day)}
+                      className={cn(
+                        'size-3 rounded-sm',
+                        LEVEL_CLASSES[day.level],
+                      )}
+                    />
+                  ) : (
+                    <div key={row} className="size-3" />
+                  ),
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {total} plays in the last {activity.counts.length} days
+        </span>
+        <span className="flex items-center gap-[3px]">
+          Less
+          {LEVEL_CLASSES.map((level) => (
+            <span key={level} className={cn('size-3 rounded-sm', level)} />
+          ))}
+          More
+        </span>
+      </div>
+    </div>
+  )
+}
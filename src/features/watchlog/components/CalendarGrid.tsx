@@ -0,0 +1,191 @@
+import { memo, useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import type { CalendarItem } from '../types'
+import { calendarMonths, monthWeeks } from '../lib/calendar-grid'
+import { EPISODE_TYPE_LABELS } from '../lib/episode-types'
+import { formatMonth } from '../lib/timeline'
+import { civilDate, cn, zonedDate } from '@/shared'
+import { EpisodeToneBar } from './EpisodeBadge'
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+// A day shows this many posters, then a count of the rest
+const MAX_POSTERS = 3
+
+// What the strip's badge would say, if it shows one
+function badgeLabel({ episode_type }: CalendarItem): string | undefined {
+  if (!episode_type || episode_type === 'standard') return undefined
+  return EPISODE_TYPE_LABELS[episode_type]
+}
+
+function describeItem(item: CalendarItem): string {
+  return [item.title, item.subtitle, badgeLabel(item)]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+interface CalendarGridProps {
+  items: CalendarItem[]
+}
+
+/** The premieres as a month calendar, paged from today's month on */
+export function CalendarGrid({ items }: CalendarGridProps) {
+  const today = zonedDate(new Date())
+  const months = useMemo(() => calendarMonths(items, today), [items, today])
+  const [storedIndex, setIndex] = useState(0)
+  // The list can shrink under the index on a refetch; the buttons step from
+  // the month on screen, not the stale index
+  const index = Math.min(storedIndex, months.length - 1)
+  const month = months[index]
+  const weeks = useMemo(() => monthWeeks(month), [month])
+
+  const byDate = useMemo(() => {
+    const grouped = new Map<string, CalendarItem[]>()
+    for (const item of items) {
+      grouped.set(item.date, [...(grouped.get(item.date) ?? []), item])
+    }
+    return grouped
+  }, [items])
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        No upcoming premieres
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-4 p-2 sm:p-4 card-surface">
+      {/* Month navigation */}
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={() => setIndex(index - 1)}
+          disabled={index === 0}
+          aria-label="Previous month"
+          className="icon-button disabled:opacity-30 disabled:pointer-events-none"
+        >
+          <span className="i-lucide-chevron-left size-5 block" />
+        </button>
+        <h3 className="text-sm font-semibold">{formatMonth(month, today)}</h3>
+        <button
+          onClick={() => setIndex(index + 1)}
+          disabled={index >= months.length - 1}
+          aria-label="Next month"
+          className="icon-button disabled:opacity-30 disabled:pointer-events-none"
+        >
+          <span className="i-lucide-chevron-right size-5 block" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAY_LABELS.map((label) => (
+          <div
+            key={label}
+            className="pb-1 text-center text-xs text-muted-foreground"
+          >
+            {label}
+          </div>
+        ))}
+        {weeks
+          .flat()
+          .map((date, cell) =>
+            date ? (
+              <CalendarDay
+                key={date}
+                date={date}
+                items={byDate.get(date) ?? []}
+                isToday={date === today}
+                isPast={date < today}
+              />
+            ) : (
+              <div key={cell} />
+            ),
+          )}
+      </div>
+    </div>
+  )
+}
+
+interface CalendarDayProps {
+  date: string
+  items: CalendarItem[]
+  isToday: boolean
+  isPast: boolean
+}
+
+const CalendarDay = memo(function CalendarDay({
+  date,
+  items,
+  isToday,
+  isPast,
+}: CalendarDayProps) {
+  const shown = items.slice(0, MAX_POSTERS)
+  const rest = items.length - shown.length
+
+  return (
+    <div
+      className={cn(
+        'min-h-16 sm:min-h-28 p-1 rounded-lg border border-border/50',
+        isToday && 'border-primary',
+        isPast && 'opacity-50',
+      )}
+    >
+      <div
+        className={cn(
+          'text-xs mb-1',
+          isToday ? 'font-semibold text-primary' : 'text-muted-foreground',
+        )}
+      >
+        <time dateTime={date}>{format(civilDate(date), 'd')}</time>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {shown.map((item) => (
+          <CalendarPoster key={item.trakt_url} item={item} />
+        ))}
+        {rest > 0 && (
+          <span
+            title={items.slice(MAX_POSTERS).map(describeItem).join('\n')}
+            className="self-end text-[10px] text-muted-foreground"
+          >
+            +{rest}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+})
+
+function CalendarPoster({ item }: { item: CalendarItem }) {
+  const [imgError, setImgError] = useState(false)
+  const description = describeItem(item)
+
+  return (
+    <a
+      href={item.trakt_url}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={description}
+      aria-label={description}
+      className="relative block w-5 sm:w-8 aspect-[2/3] rounded overflow-hidden bg-muted focusable"
+    >
+      {item.poster && !imgError ? (
+        <img
+          src={item.poster}
+          alt=""
+          className="w-full h-full object-cover"
+          loading="lazy"
+          onError={() => setImgError(true)}
+        />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center">
+          <span className="i-lucide-image-off size-3 text-muted-foreground" />
+        </div>
+      )}
+      <EpisodeToneBar
+        type={item.episode_type}
+        className="absolute inset-x-0 bottom-0"
+      />
+    </a>
+  )
+}
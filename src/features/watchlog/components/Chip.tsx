@@ -0,0 +1,31 @@
+import type { ReactNode } from 'react'
+import { cn } from '@/shared'
+
+/** A toggle in a filter row */
+export function Chip({
+  active,
+  onClick,
+  title,
+  children,
+}: {
+  active: boolean
+  onClick: () => void
+  title?: string
+  children: ReactNode
+}) {
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={active}
+      title={title}
+      className={cn(
+        'chip',
+        active
+          ? 'bg-primary border-primary text-primary-foreground'
+          : 'text-muted-foreground hover:text-foreground',
+      )}
+    >
+      {children}
+    </button>
+  )
+}
@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { cn } from '@/shared/lib/utils'
+import type { WatchlogComment } from '../types'
+
+const KIND_LABELS: Record<WatchlogComment['kind'], string> = {
+  review: 'My review',
+  shout: 'My comment',
+}
+
+/** A card's own comment, folded until asked for; a spoiler takes a second click */
+export function CommentPanel({ comment }: { comment: WatchlogComment }) {
+  const [open, setOpen] = useState(false)
+  const [revealed, setRevealed] = useState(false)
+  const hidden = comment.spoiler && !revealed
+
+  return (
+    <div className="border-t border-border">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="w-full flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground hover:text-foreground transition-colors focusable focus-visible:ring-inset"
+      >
+        <span className="i-lucide-message-square-text size-3.5" />
+        <span>{KIND_LABELS[comment.kind]}</span>
+        {comment.spoiler && (
+          <span className="text-destructive" title="Contains spoilers">
+            spoilers
+          </span>
+        )}
+        <span
+          className={cn(
+            'i-lucide-chevron-down size-3.5 ml-auto transition-transform',
+            open && 'rotate-180',
+          )}
+        />
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 text-sm">
+          <p
+            aria-hidden={hidden}
+            className={cn('break-words', hidden && 'blur-sm select-none')}
+          >
+            {comment.excerpt}
+          </p>
+          <div className="flex items-center gap-3 mt-2 text-xs">
+            {hidden && (
+              <button
+                onClick={() => setRevealed(true)}
+                className="inline-flex items-center gap-1 text-primary hover:underline focusable"
+              >
+                <span className="i-lucide-eye size-3.5" />
+                Show spoilers
+              </button>
+            )}
+            <a
+              href={comment.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 ml-auto text-muted-foreground hover:text-foreground focusable"
+            >
+              On Trakt
+              <span className="i-lucide-external-link size-3" />
+            </a>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import type { EpisodeType } from '../types'
+import {
+  EPISODE_TYPE_LABELS,
+  episodeTone,
+  type EpisodeTone,
+} from '../lib/episode-types'
+import { cn } from '@/shared'
+
+const TONE_BACKGROUNDS: Record<EpisodeTone, string> = {
+  finale: 'bg-destructive/60',
+  premiere: 'bg-success/60',
+  plain: 'bg-black/60',
+}
+
+interface EpisodeBadgeProps {
+  type?: EpisodeType
+  className?: string
+}
+
+// Unknown types are skipped, like plain episodes, until this build names them
+const isLabelled = (type?: EpisodeType): type is EpisodeType =>
+  !!type && type !== 'standard' && !!EPISODE_TYPE_LABELS[type]
+
+/** The pill over a premiere's poster; nothing for a plain episode */
+export function EpisodeBadge({ type, className }: EpisodeBadgeProps) {
+  if (!isLabelled(type)) return null
+  const label = EPISODE_TYPE_LABELS[type]
+
+  return (
+    <div
+      className={cn(
+        'px-2.5 py-1 rounded-full backdrop-blur-sm text-white text-xs font-medium',
+        TONE_BACKGROUNDS[episodeTone(type)],
+        className,
+      )}
+    >
+      {label}
+    </div>
+  )
+}
+
+/** The badge's colour alone, for a poster too small to carry the pill */
+export function EpisodeToneBar({ type, className }: EpisodeBadgeProps) {
+  if (!isLabelled(type)) return null
+  return (
+    <span
+      className={cn('h-1', TONE_BACKGROUNDS[episodeTone(type)], className)}
+    />
+  )
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import type { ShowProgress } from '../types'
+
+export function InProgress({ shows }: { shows: ShowProgress[] }) {
+  if (shows.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <span className="i-lucide-circle-check size-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground">Caught up with every show</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {shows.map((show) => (
+        <ProgressCard key={show.trakt_url} show={show} />
+      ))}
+    </div>
+  )
+}
+
+function ProgressCard({ show }: { show: ShowProgress }) {
+  const [imgError, setImgError] = useState(false)
+  const { next_episode: next } = show
+  const percent =
+    show.aired > 0 ? Math.round((show.completed / show.aired) * 100) : 0
+
+  return (
+    <a
+      href={next.trakt_url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="group flex gap-4 p-3 card-interactive"
+    >
+      {/* Poster */}
+      <div className="w-16 shrink-0 aspect-[2/3] rounded-lg bg-muted overflow-hidden">
+        {show.poster && !imgError ? (
+          <img
+            src={show.poster}
+            alt={show.title}
+            className="w-full h-full object-cover"
+            loading="lazy"
+            onError={() => setImgError(true)}
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <span className="i-lucide-image-off size-6 text-muted-foreground" />
+          </div>
+        )}
+      </div>
+
+      {/* Next episode and progress */}
+      <div className="min-w-0 flex-1 flex flex-col justify-center">
+        <h3 className="font-medium text-foreground truncate group-hover:text-primary transition-colors">
+          {show.title}
+        </h3>
+        <p className="text-sm text-muted-foreground truncate mt-0.5">
+          Next: {next.subtitle}
+          {next.title && ` • ${next.title}`}
+        </p>
+
+        <div
+          className="mt-3 h-1.5 rounded-full bg-secondary overflow-hidden"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={show.aired}
+          aria-valuenow={show.completed}
+          aria-label={`${show.completed} of ${show.aired} aired episodes watched`}
+        >
+          <div className="h-full bg-primary" style={{ width: `${percent}%` }} />
+        </div>
+        <p className="mt-1 text-xs text-muted-foreground">
+          {show.completed} / {show.aired} episodes
+        </p>
+      </div>
+    </a>
+  )
+}
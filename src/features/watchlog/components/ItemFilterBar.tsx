@@ -0,0 +1,108 @@
+import { cn } from '@/shared'
+import {
+  hasFilters,
+  ITEM_TYPES,
+  type ItemFilters,
+  type ItemType,
+} from '../lib/item-filters'
+import { Chip } from './Chip'
+
+const TYPE_LABELS: Record<ItemType, string> = {
+  movie: 'Movies',
+  episode: 'Episodes',
+  season: 'Seasons',
+}
+
+// Thresholds worth a chip: below 7 hardly narrows anything down
+const MIN_RATINGS = [7, 8, 9]
+
+interface ItemFilterBarProps {
+  filters: ItemFilters
+  /** Release years to offer, newest first */
+  years: number[]
+  onChange: (filters: ItemFilters) => void
+}
+
+export function ItemFilterBar({
+  filters,
+  years,
+  onChange,
+}: ItemFilterBarProps) {
+  const toggleType = (type: ItemType) =>
+    onChange({
+      ...filters,
+      types: filters.types.includes(type)
+        ? filters.types.filter((t) => t !== type)
+        : [...filters.types, type],
+    })
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      {ITEM_TYPES.map((type) => (
+        <Chip
+          key={type}
+          active={filters.types.includes(type)}
+          onClick={() => toggleType(type)}
+        >
+          {TYPE_LABELS[type]}
+        </Chip>
+      ))}
+
+      <span className="w-px h-5 mx-1 bg-border" />
+
+      {MIN_RATINGS.map((rating) => (
+        <Chip
+          key={rating}
+          active={filters.minRating === rating}
+          onClick={() =>
+            onChange({
+              ...filters,
+              minRating: filters.minRating === rating ? undefined : rating,
+            })
+          }
+        >
+          ★ {rating}+
+        </Chip>
+      ))}
+
+      <span className="w-px h-5 mx-1 bg-border" />
+
+      <select
+        value={filters.year ?? ''}
+        onChange={(event) =>
+          onChange({
+            ...filters,
+            year: event.target.value ? Number(event.target.value) : undefined,
+          })
+        }
+        aria-label="Release year"
+        className={cn(
+          'chip bg-transparent',
+          filters.year
+            ? 'border-primary text-foreground'
+            : 'text-muted-foreground',
+        )}
+      >
+        <option value="">Any year</option>
+        {/* A year from the URL stays selectable after the data moved on */}
+        {[...new Set([...(filters.year ? [filters.year] : []), ...years])].map(
+          (year) => (
+            <option key={year} value={year}>
+              {year}
+            </option>
+          ),
+        )}
+      </select>
+
+      {hasFilters(filters) && (
+        <button
+          onClick={() => onChange({ types: [] })}
+          className="ml-auto inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-primary transition-colors focusable"
+        >
+          <span className="i-lucide-x size-4" />
+          Clear
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+import { useState, type ReactNode } from 'react'
+import { Link } from 'react-router-dom'
+import { cn } from '@/shared/lib/utils'
+
+interface PosterCardProps {
+  /** A page of this site when it starts with `/`, Trakt otherwise */
+  href: string
+  type: 'movie' | 'show' | 'season' | 'episode'
+  title: string
+  subtitle?: string
+  year?: number
+  poster?: string
+  /** Pinned to the poster's top right; several sit in a row */
+  badge?: ReactNode
+  /** The line under the type icon: when it was watched, listed, ... */
+  footer: string
+  /** Under the info, outside the link, so it can hold its own controls */
+  aside?: ReactNode
+}
+
+function getTypeIcon(type: PosterCardProps['type']): string {
+  switch (type) {
+    case 'movie':
+      return 'i-lucide-film'
+    case 'show':
+    case 'season':
+    case 'episode':
+      return 'i-lucide-clapperboard'
+  }
+}
+
+/** The poster grid card every Watchlog list shares */
+export function PosterCard({
+  href,
+  type,
+  title,
+  subtitle,
+  year,
+  poster,
+  badge,
+  footer,
+  aside,
+}: PosterCardProps) {
+  const [imgError, setImgError] = useState(false)
+  const meta = [subtitle, year].filter(Boolean).join(' • ')
+
+  const content = (
+    <>
+      {/* Poster with badge */}
+      <div className="relative aspect-[2/3] bg-muted overflow-hidden">
+        {poster && !imgError ? (
+          <img
+            src={poster}
+            alt={title}
+            className="w-full h-full object-cover"
+            loading="lazy"
+            onError={() => setImgError(true)}
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <span className="i-lucide-image-off size-12 text-muted-foreground" />
+          </div>
+        )}
+
+        {badge && (
+          <div className="absolute top-2 right-2 flex gap-1">{badge}</div>
+        )}
+      </div>
+
+      {/* Info */}
+      <div className="p-3">
+        <h3 className="font-medium text-foreground truncate group-hover:text-primary transition-colors">
+          {title}
+        </h3>
+
+        <p className="text-sm text-muted-foreground truncate mt-0.5 min-h-5">
+          {meta}
+        </p>
+
+        <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+          <span className={cn(getTypeIcon(type), 'size-3.5')} />
+          <span>{footer}</span>
+        </div>
+      </div>
+    </>
+  )
+
+  // With an aside, the card is the wrapper and the link only its top part
+  const className = aside
+    ? 'block focusable focus-visible:ring-inset'
+    : 'group block overflow-hidden card-interactive'
+  const link = href.startsWith('/') ? (
+    <Link to={href} className={className}>
+      {content}
+    </Link>
+  ) : (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={className}
+    >
+      {content}
+    </a>
+  )
+
+  if (!aside) return link
+  return (
+    <div className="group overflow-hidden card-interactive">
+      {link}
+      {aside}
+    </div>
+  )
+}
+
+/** A pill for the badge slot; `tone` tints it like the timeline badges */
+export function PosterBadge({
+  tone = 'neutral',
+  title,
+  children,
+}: {
+  tone?: 'neutral' | 'success'
+  title?: string
+  children: ReactNode
+}) {
+  return (
+    <div
+      title={title}
+      className={cn(
+        'flex items-center gap-1 px-2.5 py-1 rounded-full backdrop-blur-sm text-white text-xs font-medium',
+        tone === 'success' ? 'bg-success/60' : 'bg-black/60',
+      )}
+    >
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import { cn } from '@/shared'
+import type { PremieresView } from '../hooks/usePremieresView'
+
+const VIEWS: { view: PremieresView; label: string; icon: string }[] = [
+  { view: 'strip', label: 'Timeline', icon: 'i-lucide-gallery-horizontal' },
+  { view: 'grid', label: 'Month grid', icon: 'i-lucide-calendar-days' },
+]
+
+export function PremieresViewToggle({
+  view,
+  onChange,
+}: {
+  view: PremieresView
+  onChange: (view: PremieresView) => void
+}) {
+  return (
+    <div className="flex gap-1">
+      {VIEWS.map((option) => (
+        <button
+          key={option.view}
+          onClick={() => onChange(option.view)}
+          aria-pressed={view === option.view}
+          aria-label={option.label}
+          title={option.label}
+          className={cn(
+            'icon-button',
+            view === option.view && 'text-primary bg-secondary',
+          )}
+        >
+          <span className={cn(option.icon, 'size-4 block')} />
+        </button>
+      ))}
+    </div>
+  )
+}
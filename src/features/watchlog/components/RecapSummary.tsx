@@ -0,0 +1,111 @@
+import { format } from 'date-fns'
+import { civilDate } from '@/shared'
+import type { WatchlogItem, YearRecap } from '../types'
+import { StatCard } from './StatsBar'
+import { WatchlogCard } from './WatchlogCard'
+
+export function RecapSummary({ recap }: { recap: YearRecap }) {
+  const { busiest_month: busiest, longest_binge: binge } = recap
+
+  return (
+    <>
+      {/* Totals */}
+      <section className="mb-16">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <StatCard label="Movies" value={recap.movies} icon="i-lucide-film" />
+          <StatCard
+            label="Shows"
+            value={recap.shows}
+            icon="i-lucide-clapperboard"
+          />
+          <StatCard
+            label="Episodes"
+            value={recap.episodes}
+            icon="i-lucide-list-video"
+          />
+          <StatCard label="Hours" value={recap.hours} icon="i-lucide-clock" />
+        </div>
+
+        {(busiest || binge) && (
+          <div className="mt-4 grid gap-4 sm:grid-cols-2">
+            {busiest && (
+              <Highlight
+                icon="i-lucide-calendar-days"
+                label="Busiest month"
+                value={format(civilDate(`${busiest.month}-01`), 'MMMM')}
+                detail={`${busiest.plays} plays`}
+              />
+            )}
+            {binge && (
+              <Highlight
+                icon="i-lucide-flame"
+                label="Longest binge"
+                value={binge.title}
+                detail={`${binge.episodes} episodes on ${format(civilDate(binge.date), 'MMM d')}`}
+                href={binge.trakt_url}
+              />
+            )}
+          </div>
+        )}
+      </section>
+
+      <TopList title="Top movies" items={recap.top_movies} />
+      <TopList title="Top seasons" items={recap.top_seasons} />
+    </>
+  )
+}
+
+function Highlight({
+  icon,
+  label,
+  value,
+  detail,
+  href,
+}: {
+  icon: string
+  label: string
+  value: string
+  detail: string
+  href?: string
+}) {
+  const body = (
+    <>
+      <span className={`${icon} size-5 text-primary shrink-0`} />
+      <div className="min-w-0">
+        <div className="text-xs sm:text-sm text-muted-foreground">{label}</div>
+        <div className="font-medium text-foreground truncate">{value}</div>
+        <div className="text-xs text-muted-foreground">{detail}</div>
+      </div>
+    </>
+  )
+
+  return href ? (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-4 p-4 sm:p-6 card-interactive"
+    >
+      {body}
+    </a>
+  ) : (
+    <div className="flex items-center gap-4 p-4 sm:p-6 card-surface">
+      {body}
+    </div>
+  )
+}
+
+function TopList({ title, items }: { title: string; items: WatchlogItem[] }) {
+  if (items.length === 0) return null
+
+  return (
+    <section className="mb-16">
+      <h2 className="section-heading mb-6">{title}</h2>
+      <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
+        {items.map((item) => (
+          <WatchlogCard key={item.trakt_url} item={item} />
+        ))}
+      </div>
+    </section>
+  )
+}
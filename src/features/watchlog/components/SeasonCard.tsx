@@ -0,0 +1,36 @@
+import { format } from 'date-fns'
+import { civilDate } from '@/shared'
+import type { SeasonDetail } from '../types'
+import { PosterBadge, PosterCard } from './PosterCard'
+
+/** `Mar 2024`, `Jan – Mar 2024` or `Dec 2023 – Feb 2024` */
+function formatWatchedSpan(first: string, last: string): string {
+  const month = (date: string) => format(civilDate(date), 'MMM')
+  const year = (date: string) => date.slice(0, 4)
+
+  if (first.slice(0, 7) === last.slice(0, 7)) {
+    return `${month(first)} ${year(first)}`
+  }
+  if (year(first) === year(last)) {
+    return `${month(first)} – ${month(last)} ${year(last)}`
+  }
+  return `${month(first)} ${year(first)} – ${month(last)} ${year(last)}`
+}
+
+export function SeasonCard({ season }: { season: SeasonDetail }) {
+  const rewatches = season.plays - season.episodes
+  const span = formatWatchedSpan(season.first_watched, season.last_watched)
+
+  return (
+    <PosterCard
+      href={season.trakt_url}
+      type="season"
+      title={season.season === 0 ? 'Specials' : `Season ${season.season}`}
+      subtitle={season.subtitle}
+      year={season.year}
+      poster={season.poster}
+      badge={season.rating && <PosterBadge>★ {season.rating}</PosterBadge>}
+      footer={rewatches > 0 ? `${span} · ${rewatches} rewatched` : span}
+    />
+  )
+}
@@ -1,28 +1,37 @@
-import type { WatchlogStats } from '../types'
+import type { ReactNode } from 'react'
+import { cn } from '@/shared'
+import type { ExtendedStats, WatchlogStats } from '../types'
 
 export function StatsBar({ stats }: { stats?: WatchlogStats }) {
   return (
-    <div className="grid grid-cols-3 gap-4">
-      <StatCard
-        label="Movies"
-        value={stats?.movies_watched}
-        icon="i-lucide-film"
-      />
-      <StatCard
-        label="Shows"
-        value={stats?.shows_watched}
-        icon="i-lucide-clapperboard"
-      />
-      <StatCard
-        label="Hours"
-        value={stats?.total_hours}
-        icon="i-lucide-clock"
-      />
-    </div>
+    <>
+      <div className="grid grid-cols-3 gap-4">
+        <StatCard
+          label="Movies"
+          value={stats?.movies_watched}
+          icon="i-lucide-film"
+        />
+        <StatCard
+          label="Shows"
+          value={stats?.shows_watched}
+          icon="i-lucide-clapperboard"
+        />
+        <StatCard
+          label="Hours"
+          value={stats?.total_hours}
+          icon="i-lucide-clock"
+        />
+      </div>
+
+      {/* Files from before the extended stats stop at the three counters */}
+      {stats?.extended && (
+        <ExtendedStatsGrid stats={stats} extended={stats.extended} />
+      )}
+    </>
   )
 }
 
-function StatCard({
+export function StatCard({
   label,
   value,
   icon,
@@ -41,3 +50,149 @@ function StatCard({
     </div>
   )
 }
+
+function ExtendedStatsGrid({
+  stats,
+  extended,
+}: {
+  stats: WatchlogStats
+  extended: ExtendedStats
+}) {
+  return (
+    <div className="mt-4 grid gap-4 md:grid-cols-2">
+      <Panel title="Hours">
+        <Split
+          left={{ label: 'Movies', value: extended.movie_hours }}
+          right={{ label: 'Episodes', value: extended.episode_hours }}
+          unit="h"
+        />
+      </Panel>
+
+      <Panel title="Plays vs. unique titles">
+        <div className="space-y-4">
+          <Split
+            left={{ label: 'Movies', value: stats.movies_watched }}
+            right={{
+              label: 'rewatches',
+              value: extended.movie_plays - stats.movies_watched,
+            }}
+          />
+          <Split
+            left={{ label: 'Episodes', value: extended.episodes_watched }}
+            right={{
+              label: 'rewatches',
+              value: extended.episode_plays - extended.episodes_watched,
+            }}
+          />
+        </div>
+      </Panel>
+
+      <Panel title="Ratings" className="md:col-span-2">
+        <RatingHistogram ratings={extended.ratings} />
+      </Panel>
+
+      <p className="md:col-span-2 text-xs text-muted-foreground">
+        {extended.movies_collected} movies and {extended.episodes_collected}{' '}
+        episodes collected · {extended.comments} comments
+      </p>
+    </div>
+  )
+}
+
+function Panel({
+  title,
+  className,
+  children,
+}: {
+  title: string
+  className?: string
+  children: ReactNode
+}) {
+  return (
+    <div className={cn('p-4 sm:p-6 card-surface', className)}>
+      <h3 className="text-sm font-medium text-muted-foreground mb-4">
+        {title}
+      </h3>
+      {children}
+    </div>
+  )
+}
+
+interface SplitSide {
+  label: string
+  value: number
+}
+
+/** Two shares of one whole, as a bar with a caption under each end */
+function Split({
+  left,
+  right,
+  unit = '',
+}: {
+  left: SplitSide
+  right: SplitSide
+  unit?: string
+}) {
+  // Plays and unique titles are separate Trakt counters that can disagree
+  const rightValue = Math.max(right.value, 0)
+  const total = left.value + rightValue
+  const share = total > 0 ? (left.value / total) * 100 : 0
+
+  return (
+    <div>
+      <div className="flex h-2 rounded-full overflow-hidden bg-secondary">
+        <div className="bg-primary" style={{ width: `${share}%` }} />
+      </div>
+      <div className="mt-2 flex justify-between text-xs sm:text-sm">
+        <span className="text-foreground">
+          {left.value}
+          {unit} <span className="text-muted-foreground">{left.label}</span>
+        </span>
+        <span className="text-foreground">
+          {rightValue}
+          {unit} <span className="text-muted-foreground">{right.label}</span>
+        </span>
+      </div>
+    </div>
+  )
+}
+
+function RatingHistogram({ ratings }: { ratings: number[] }) {
+  const max = Math.max(...ratings, 1)
+  const total = ratings.reduce((sum, count) => sum + count, 0)
+  const average =
+    total > 0
+      ? ratings.reduce((sum, count, index) => sum + count * (index + 1), 0) /
+        total
+      : 0
+
+  return (
+    <>
+      <div className="flex items-end gap-1 sm:gap-2 h-32">
+        {ratings.map((count, index) => (
+          <div
+            key={index}
+            className="flex-1 h-full flex flex-col justify-end"
+            title={`${count} rated ${index + 1}`}
+          >
+            <div
+              className="rounded-t-md bg-primary/80"
+              style={{ height: `${(count / max) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 sm:gap-2 mt-1 text-xs text-muted-foreground text-center">
+        {ratings.map((_, index) => (
+          <span key={index} className="flex-1">
+            {index + 1}
+          </span>
+        ))}
+      </div>
+      <p className="mt-3 text-xs sm:text-sm text-muted-foreground">
+        {total} ratings
+        {total > 0 && <>, {average.toFixed(1)} on average</>}
+      </p>
+    </>
+  )
+}
@@ -1,6 +1,18 @@
 import { useRef, useState, useEffect, useCallback, useMemo, memo } from 'react'
-import type { CalendarItem, EpisodeType } from '../types'
-import { cn, civilDate } from '@/shared'
+import type { CalendarItem } from '../types'
+import { EPISODE_TYPE_LABELS } from '../lib/episode-types'
+import {
+  cardRange,
+  countdownLabel,
+  dateSlots,
+  formatMonth,
+  HIGHLIGHT_TYPES,
+  isHighlight,
+  monthStarts,
+} from '../lib/timeline'
+import { cn, civilDate, zonedDate } from '@/shared'
+import { Chip } from './Chip'
+import { EpisodeBadge } from './EpisodeBadge'
 
 // Layout constants (must match Tailwind classes)
 const CARD_WIDTH_PX = 144 // w-36
@@ -9,10 +21,21 @@ const SCROLL_BUFFER = 10
 const SCROLL_FACTOR = 0.8
 const LERP_FACTOR = 0.15 // Controls jelly effect smoothness (lower = more delay)
 
+// Windowing: every card takes one slot, and a date's segment spans its cards'
+const SLOT_PX = CARD_WIDTH_PX + GAP_PX
+// Cards mounted past each edge, so a fling never shows an empty strip
+const OVERSCAN = 6
+// Before the first measurement: a wide screen's worth
+const INITIAL_RANGE = { first: 0, last: 12 }
+
 interface TimelineProps {
   items: CalendarItem[]
+  /** The highlights toggle and month jumps; off where the list is short */
+  controls?: boolean
 }
 
+const HIGHLIGHTS_TITLE = `Movies and ${HIGHLIGHT_TYPES.map((type) => EPISODE_TYPE_LABELS[type]).join(', ')} only`
+
 function groupByDate(items: CalendarItem[]): Record<string, CalendarItem[]> {
   return items.reduce(
     (acc, item) => {
@@ -27,7 +50,9 @@ function groupByDate(items: CalendarItem[]): Record<string, CalendarItem[]> {
   )
 }
 
-export function Timeline({ items }: TimelineProps) {
+export function Timeline({ items, controls = true }: TimelineProps) {
+  const [highlightsOnly, setHighlightsOnly] = useState(false)
+  const [range, setRange] = useState(INITIAL_RANGE)
   const cardsRef = useRef<HTMLDivElement>(null)
   const timelineRef = useRef<HTMLDivElement>(null)
   const [scrollState, setScrollState] = useState({
@@ -46,6 +71,24 @@ export function Timeline({ items }: TimelineProps) {
     })
   }, [])
 
+  // Mounted: whatever either strip shows, the lagging track included
+  const updateRange = useCallback(() => {
+    const cards = cardsRef.current
+    if (!cards) return
+    const track = timelineRef.current?.scrollLeft ?? cards.scrollLeft
+    const next = cardRange(
+      Math.min(cards.scrollLeft, track),
+      Math.max(cards.scrollLeft, track) + cards.clientWidth,
+      SLOT_PX,
+      OVERSCAN,
+    )
+    setRange((current) =>
+      current.first === next.first && current.last === next.last
+        ? current
+        : next,
+    )
+  }, [])
+
   // Jelly effect: timeline lags behind cards
   const targetScrollRef = useRef(0)
   const currentScrollRef = useRef(0)
@@ -65,6 +108,8 @@ export function Timeline({ items }: TimelineProps) {
         currentScrollRef.current = targetScrollRef.current
         timelineRef.current.scrollLeft = targetScrollRef.current
         animationRef.current = null
+        // The track has caught up: drop what only its lag kept mounted
+        updateRange()
         return
       }
 
@@ -74,7 +119,7 @@ export function Timeline({ items }: TimelineProps) {
     }
 
     animationRef.current = requestAnimationFrame(step)
-  }, [])
+  }, [updateRange])
 
   useEffect(() => {
     const ref = cardsRef.current
@@ -86,16 +131,21 @@ export function Timeline({ items }: TimelineProps) {
     updateScrollButtons()
     const handleScroll = () => {
       updateScrollButtons()
+      updateRange()
       syncTimelineScroll()
     }
+    const handleResize = () => {
+      updateScrollButtons()
+      updateRange()
+    }
     ref?.addEventListener('scroll', handleScroll)
-    window.addEventListener('resize', updateScrollButtons)
+    window.addEventListener('resize', handleResize)
     return () => {
       ref?.removeEventListener('scroll', handleScroll)
-      window.removeEventListener('resize', updateScrollButtons)
+      window.removeEventListener('resize', handleResize)
       if (animationRef.current) cancelAnimationFrame(animationRef.current)
     }
-  }, [updateScrollButtons, syncTimelineScroll])
+  }, [updateScrollButtons, updateRange, syncTimelineScroll])
 
   const scroll = useCallback((direction: 'left' | 'right') => {
     if (!cardsRef.current) return
@@ -106,8 +156,49 @@ export function Timeline({ items }: TimelineProps) {
     })
   }, [])
 
-  const grouped = useMemo(() => groupByDate(items), [items])
+  const jumpTo = useCallback((offset: number) => {
+    cardsRef.current?.scrollTo({
+      left: offset * SLOT_PX,
+      behavior: 'smooth',
+    })
+  }, [])
+
+  const visible = useMemo(
+    () => (highlightsOnly ? items.filter(isHighlight) : items),
+    [items, highlightsOnly],
+  )
+  const grouped = useMemo(() => groupByDate(visible), [visible])
   const sortedDates = useMemo(() => Object.keys(grouped).sort(), [grouped])
+  // Date order, flat: a card's index is its slot
+  const cards = useMemo(
+    () => sortedDates.flatMap((date) => grouped[date]),
+    [grouped, sortedDates],
+  )
+  const days = useMemo(
+    () =>
+      dateSlots(
+        sortedDates.map((date) => ({ date, count: grouped[date].length })),
+      ),
+    [grouped, sortedDates],
+  )
+  const starts = useMemo(() => monthStarts(days), [days])
+  const today = zonedDate(new Date())
+
+  // The toggle changes the strip's width under the scroll buttons
+  useEffect(() => {
+    updateScrollButtons()
+    updateRange()
+  }, [cards, updateScrollButtons, updateRange])
+
+  // Both strips keep their full width, the unmounted slots as padding, so
+  // scrollWidth and with it the scroll buttons see every card
+  const stripWidth = Math.max(cards.length * SLOT_PX - GAP_PX, 0)
+  const last = Math.min(range.last, cards.length)
+  const first = Math.min(range.first, last)
+  const mountedDays = days.filter(
+    (day) => day.start < last && day.start + day.count > first,
+  )
+  const trackStart = mountedDays[0]?.start ?? 0
 
   if (items.length === 0) {
     return (
@@ -119,6 +210,42 @@ export function Timeline({ items }: TimelineProps) {
 
   return (
     <div className="group/scroll">
+      {controls && (
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          <Chip
+            active={highlightsOnly}
+            onClick={() => setHighlightsOnly(!highlightsOnly)}
+            title={HIGHLIGHTS_TITLE}
+          >
+            Premieres & finales
+          </Chip>
+          {starts.length > 1 && (
+            <select
+              // Always back on the prompt: a jump is an action, not a state
+              value=""
+              onChange={(event) => jumpTo(Number(event.target.value))}
+              aria-label="Jump to month"
+              className="chip ml-auto bg-transparent text-muted-foreground"
+            >
+              <option value="" disabled>
+                Jump to month
+              </option>
+              {starts.map(({ month, offset }) => (
+                <option key={month} value={offset}>
+                  {formatMonth(month, today)}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+
+      {visible.length === 0 && (
+        <div className="text-center py-12 text-muted-foreground">
+          No premieres or finales coming up
+        </div>
+      )}
+
       {/* Cards section with buttons centered on cards only */}
       <div className="relative">
         {/* Scroll buttons */}
@@ -146,13 +273,16 @@ export function Timeline({ items }: TimelineProps) {
           aria-label="Upcoming premieres, scrollable"
         >
           {/* py-4 for the shadow at the bottom. not pb-4 to keep the timeline buttons centered */}
-          <div className="flex gap-3 min-w-max py-4">
-            {sortedDates.map((date) => (
-              <div key={date} className="flex gap-3">
-                {grouped[date].map((item, index) => (
-                  <TimelineCard key={index} item={item} />
-                ))}
-              </div>
+          <div
+            className="flex gap-3 py-4"
+            style={{ width: stripWidth, paddingLeft: first * SLOT_PX }}
+          >
+            {/* Keyed by item: a filter moves titles between slots */}
+            {cards.slice(first, last).map((item) => (
+              <TimelineCard
+                key={`${item.trakt_url}|${item.date}`}
+                item={item}
+              />
             ))}
           </div>
         </div>
@@ -160,15 +290,25 @@ export function Timeline({ items }: TimelineProps) {
 
       {/* Timeline - synced scroll with cards */}
       <div ref={timelineRef} className="overflow-x-hidden">
-        <div className="flex gap-3 min-w-max">
-          {sortedDates.map((date, index) => (
-            <TimelineSegment
-              key={date}
-              date={date}
-              itemCount={grouped[date].length}
-              isLast={index === sortedDates.length - 1}
-            />
-          ))}
+        <div
+          className="flex gap-3"
+          style={{ width: stripWidth, paddingLeft: trackStart * SLOT_PX }}
+        >
+          {mountedDays.map(({ date, start, count }) => {
+            const month = date.slice(0, 7)
+            // The month's first card opens it, mounted or not
+            const opensMonth = starts.some((s) => s.offset === start)
+            return (
+              <TimelineSegment
+                key={date}
+                date={date}
+                itemCount={count}
+                isLast={start + count === cards.length}
+                month={opensMonth ? formatMonth(month, today) : undefined}
+                countdown={countdownLabel(date, today)}
+              />
+            )
+          })}
         </div>
       </div>
     </div>
@@ -216,12 +356,17 @@ interface TimelineSegmentProps {
   date: string
   itemCount: number
   isLast: boolean
+  /** Set on the month's first date only */
+  month?: string
+  countdown: string
 }
 
 const TimelineSegment = memo(function TimelineSegment({
   date,
   itemCount,
   isLast,
+  month,
+  countdown,
 }: TimelineSegmentProps) {
   const formattedDate = civilDate(date).toLocaleDateString('en-US', {
     month: 'short',
@@ -232,41 +377,39 @@ const TimelineSegment = memo(function TimelineSegment({
   const segmentWidth = itemCount * CARD_WIDTH_PX + (itemCount - 1) * GAP_PX
 
   return (
-    <div className="flex items-center" style={{ width: `${segmentWidth}px` }}>
-      {/* Dot */}
-      <div className="w-2.5 h-2.5 rounded-full flex-shrink-0 bg-primary" />
+    <div style={{ width: `${segmentWidth}px` }}>
+      {/* Month header, kept as an empty row elsewhere so dots stay level */}
+      <div className="h-5 mb-1 text-xs font-semibold uppercase tracking-wide text-primary whitespace-nowrap">
+        {month}
+      </div>
+
+      <div className="flex items-center">
+        {/* Dot */}
+        <div className="w-2.5 h-2.5 rounded-full flex-shrink-0 bg-primary" />
+
+        {/* Date label */}
+        <span className="text-sm font-medium ml-2 whitespace-nowrap text-muted-foreground">
+          {formattedDate}
+        </span>
 
-      {/* Date label */}
-      <span className="text-sm font-medium ml-2 whitespace-nowrap text-muted-foreground">
-        {formattedDate}
-      </span>
+        {/* Connecting line (hidden for last segment) */}
+        {!isLast && <div className="flex-1 h-px bg-border ml-3 min-w-8" />}
+      </div>
 
-      {/* Connecting line (hidden for last segment) */}
-      {!isLast && <div className="flex-1 h-px bg-border ml-3 min-w-8" />}
+      {/* Countdown, under the date */}
+      <div className="ml-4.5 text-xs text-muted-foreground/80 whitespace-nowrap">
+        {countdown}
+      </div>
     </div>
   )
 })
 
-const EPISODE_TYPE_LABELS: Record<EpisodeType, string> = {
-  series_premiere: 'New Series',
-  season_premiere: 'Season Premiere',
-  mid_season_premiere: 'Mid-Premiere',
-  mid_season_finale: 'Mid-Finale',
-  season_finale: 'Season Finale',
-  series_finale: 'The End',
-  standard: 'Episode',
-}
-
 const TimelineCard = memo(function TimelineCard({
   item,
 }: {
   item: CalendarItem
 }) {
   const [imgError, setImgError] = useState(false)
-  const badgeLabel =
-    item.episode_type &&
-    item.episode_type !== 'standard' &&
-    EPISODE_TYPE_LABELS[item.episode_type]
 
   return (
     <a
@@ -290,20 +433,10 @@ const TimelineCard = memo(function TimelineCard({
             <span className="i-lucide-image-off size-8 text-muted-foreground" />
           </div>
         )}
-        {badgeLabel && (
-          <div
-            className={cn(
-              'absolute top-2 right-2 px-2.5 py-1 rounded-full backdrop-blur-sm text-white text-xs font-medium',
-              item.episode_type?.includes('finale')
-                ? 'bg-destructive/60'
-                : item.episode_type?.includes('premiere')
-                  ? 'bg-success/60'
-                  : 'bg-black/60',
-            )}
-          >
-            {badgeLabel}
-          </div>
-        )}
+        <EpisodeBadge
+          type={item.episode_type}
+          className="absolute top-2 right-2"
+        />
       </div>
 
       {/* Info */}
@@ -0,0 +1,68 @@
+import { useState } from 'react'
+import { formatDistanceToNowStrict } from 'date-fns'
+import { zonedDate } from '@/shared'
+import type { WatchlistItem } from '../types'
+import { PosterBadge, PosterCard } from './PosterCard'
+
+// Two rows at the widest breakpoint
+const COLLAPSED_COUNT = 10
+
+export function Watchlist({ items }: { items: WatchlistItem[] }) {
+  const [expanded, setExpanded] = useState(false)
+  const today = zonedDate(new Date())
+  const visible = expanded ? items : items.slice(0, COLLAPSED_COUNT)
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <span className="i-lucide-list-video size-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground">The watchlist is empty</p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
+        {visible.map((item) => (
+          <WatchlistCard key={item.trakt_url} item={item} today={today} />
+        ))}
+      </div>
+
+      {items.length > COLLAPSED_COUNT && (
+        <button
+          onClick={() => setExpanded((value) => !value)}
+          className="mt-6 px-4 py-2 text-sm font-medium card-interactive"
+        >
+          {expanded ? 'Show less' : `Show all ${items.length}`}
+        </button>
+      )}
+    </>
+  )
+}
+
+function WatchlistCard({
+  item,
+  today,
+}: {
+  item: WatchlistItem
+  today: string
+}) {
+  // Queued before release and out since: time to actually watch it
+  const isReleased = item.released !== undefined && item.released <= today
+
+  return (
+    <PosterCard
+      href={item.trakt_url}
+      type={item.type}
+      title={item.title}
+      subtitle={item.subtitle}
+      year={item.year}
+      poster={item.poster}
+      badge={isReleased && <PosterBadge tone="success">Released</PosterBadge>}
+      footer={`Added ${formatDistanceToNowStrict(new Date(item.listed_at), {
+        addSuffix: true,
+      })}`}
+    />
+  )
+}
@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'bun:test'
+import type { ReactElement } from 'react'
+import type { WatchlogItem } from '../types'
+import { WatchlogCard } from './WatchlogCard'
+
+const item = (url: string): WatchlogItem => ({
+  type: 'movie',
+  title: 'Heat',
+  year: 1995,
+  watched_at: '2025-03-10',
+  trakt_url: 'https://trakt.tv/movies/heat-1995',
+  comment: { kind: 'shout', excerpt: 'Yes.', spoiler: true, url },
+})
+
+/** The comment panel the card renders, as React will reconcile it */
+function panel(url: string) {
+  const card = WatchlogCard({ item: item(url) }) as ReactElement<{
+    aside: ReactElement
+  }>
+  return card.props.aside
+}
+
+describe('WatchlogCard', () => {
+  test('a new comment gets a new panel, folded and unrevealed', () => {
+    // React keeps a panel's open and revealed state only while its key holds
+    expect(panel('https://trakt.tv/comments/1').key).toBe(
+      panel('https://trakt.tv/comments/1').key,
+    )
+    expect(panel('https://trakt.tv/comments/2').key).not.toBe(
+      panel('https://trakt.tv/comments/1').key,
+    )
+  })
+})
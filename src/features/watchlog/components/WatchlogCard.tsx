@@ -1,73 +1,42 @@
-import { useState } from 'react'
 import type { WatchlogItem } from '../types'
+import { showPath } from '../lib/show-page'
 import { parseWatchedAt } from '../lib/watched-date'
-import { cn } from '@/shared'
+import { CommentPanel } from './CommentPanel'
+import { PosterBadge, PosterCard } from './PosterCard'
 
 interface WatchlogCardProps {
   item: WatchlogItem
 }
 
-function getTypeIcon(type: WatchlogItem['type']): string {
-  switch (type) {
-    case 'movie':
-      return 'i-lucide-film'
-    case 'episode':
-    case 'season':
-      return 'i-lucide-clapperboard'
-  }
-}
-
 export function WatchlogCard({ item }: WatchlogCardProps) {
-  const [imgError, setImgError] = useState(false)
-  const relativeTime = parseWatchedAt(item.watched_at)
-  const typeIcon = getTypeIcon(item.type)
-
   return (
-    <a
-      href={item.trakt_url}
-      target="_blank"
-      rel="noopener noreferrer"
-      className="group block overflow-hidden card-interactive"
-    >
-      {/* Poster with rating badge */}
-      <div className="relative aspect-[2/3] bg-muted overflow-hidden">
-        {item.poster && !imgError ? (
-          <img
-            src={item.poster}
-            alt={item.title}
-            className="w-full h-full object-cover"
-            loading="lazy"
-            onError={() => setImgError(true)}
-          />
-        ) : (
-          <div className="w-full h-full flex items-center justify-center">
-            <span className="i-lucide-image-off size-12 text-muted-foreground" />
-          </div>
-        )}
-
-        {/* Rating badge */}
-        {item.rating && (
-          <div className="absolute top-2 right-2 flex items-center gap-1 px-2.5 py-1 rounded-full bg-black/60 backdrop-blur-sm text-white text-xs font-medium">
-            ★ {item.rating}
-          </div>
-        )}
-      </div>
-
-      {/* Info */}
-      <div className="p-3">
-        <h3 className="font-medium text-foreground truncate group-hover:text-primary transition-colors">
-          {item.title}
-        </h3>
-
-        <p className="text-sm text-muted-foreground truncate mt-0.5">
-          {item.subtitle ? `${item.subtitle} • ${item.year}` : item.year}
-        </p>
-
-        <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
-          <span className={cn(typeIcon, 'size-3.5')} />
-          <span>{relativeTime}</span>
-        </div>
-      </div>
-    </a>
+    <PosterCard
+      // Episodes and seasons open the show's page, which links on to Trakt
+      href={showPath(item.trakt_url) ?? item.trakt_url}
+      type={item.type}
+      title={item.title}
+      subtitle={item.subtitle}
+      year={item.year}
+      poster={item.poster}
+      badge={
+        (item.rating || item.plays) && (
+          <>
+            {item.plays && (
+              <PosterBadge title={`Rewatch, play ${item.plays}`}>
+                <span className="i-lucide-repeat size-3" />×{item.plays}
+              </PosterBadge>
+            )}
+            {item.rating && <PosterBadge>★ {item.rating}</PosterBadge>}
+          </>
+        )
+      }
+      footer={parseWatchedAt(item.watched_at)}
+      aside={
+        // Keyed so a card handed another comment starts folded again
+        item.comment && (
+          <CommentPanel key={item.comment.url} comment={item.comment} />
+        )
+      }
+    />
   )
 }
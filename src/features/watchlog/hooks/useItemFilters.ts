@@ -0,0 +1,22 @@
+import { useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import {
+  readFilters,
+  writeFilters,
+  type ItemFilters,
+} from '../lib/item-filters'
+
+/** The grid filters, read from and written to the query string */
+export function useItemFilters() {
+  const [params, setParams] = useSearchParams()
+  const filters = useMemo(() => readFilters(params), [params])
+
+  // Replaced, not pushed: a click on a chip is not a page to go back to
+  const setFilters = useCallback(
+    (next: ItemFilters) =>
+      setParams((current) => writeFilters(current, next), { replace: true }),
+    [setParams],
+  )
+
+  return [filters, setFilters] as const
+}
@@ -0,0 +1,23 @@
+import { useCallback, useState } from 'react'
+
+export type PremieresView = 'strip' | 'grid'
+
+const STORAGE_KEY = 'ykvlv_premieres_view'
+
+function getStoredView(): PremieresView {
+  if (typeof window === 'undefined') return 'strip'
+  const stored = localStorage.getItem(STORAGE_KEY)
+  return stored === 'grid' ? 'grid' : 'strip'
+}
+
+/** Strip or month grid, remembered per browser like the theme */
+export function usePremieresView() {
+  const [view, setViewState] = useState<PremieresView>(getStoredView)
+
+  const setView = useCallback((next: PremieresView) => {
+    setViewState(next)
+    localStorage.setItem(STORAGE_KEY, next)
+  }, [])
+
+  return [view, setView] as const
+}
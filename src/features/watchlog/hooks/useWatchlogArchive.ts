@@ -0,0 +1,11 @@
+import { useGistData } from '@/shared'
+import { archiveFilename } from '../lib/archive'
+import { parseWatchlogArchive } from '../lib/schema'
+
+const { GIST_FILENAME_WATCHLOG } = import.meta.env
+
+export const useWatchlogArchive = (year: number) =>
+  useGistData(
+    archiveFilename(GIST_FILENAME_WATCHLOG, year),
+    parseWatchlogArchive,
+  )
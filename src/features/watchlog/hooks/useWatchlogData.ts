@@ -1,7 +1,7 @@
 import { useGistData } from '@/shared'
-import type { WatchlogData } from '../types'
+import { parseWatchlog } from '../lib/schema'
 
 const { GIST_FILENAME_WATCHLOG } = import.meta.env
 
 export const useWatchlogData = () =>
-  useGistData<WatchlogData>(GIST_FILENAME_WATCHLOG)
+  useGistData(GIST_FILENAME_WATCHLOG, parseWatchlog)
@@ -0,0 +1,8 @@
+import { useGistData } from '@/shared'
+import { showsFilename } from '../lib/archive'
+import { parseWatchlogShows } from '../lib/schema'
+
+const { GIST_FILENAME_WATCHLOG } = import.meta.env
+
+export const useWatchlogShows = () =>
+  useGistData(showsFilename(GIST_FILENAME_WATCHLOG), parseWatchlogShows)
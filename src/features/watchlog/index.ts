@@ -1,7 +1,24 @@
 // Components
+export { ActivityHeatmap } from './components/ActivityHeatmap'
+export { CalendarGrid } from './components/CalendarGrid'
+export { InProgress } from './components/InProgress'
+export { ItemFilterBar } from './components/ItemFilterBar'
+export { PremieresViewToggle } from './components/PremieresViewToggle'
+export { RecapSummary } from './components/RecapSummary'
+export { SeasonCard } from './components/SeasonCard'
 export { StatsBar } from './components/StatsBar'
 export { Timeline } from './components/Timeline'
+export { Watchlist } from './components/Watchlist'
 export { WatchlogCard } from './components/WatchlogCard'
 
 // Hooks
+export { useItemFilters } from './hooks/useItemFilters'
+export { usePremieresView } from './hooks/usePremieresView'
 export { useWatchlogData } from './hooks/useWatchlogData'
+export { useWatchlogArchive } from './hooks/useWatchlogArchive'
+export { useWatchlogShows } from './hooks/useWatchlogShows'
+
+// Lib
+export { feedUrl } from './lib/feeds'
+export { filterItems, itemYears } from './lib/item-filters'
+export { isShowUrl } from './lib/show-page'
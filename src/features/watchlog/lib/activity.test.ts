@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test'
+import { activityLevel, activityWeeks, type ActivityDay } from './activity'
+
+describe('activityLevel', () => {
+  test.each<[number, number, ActivityDay['level']]>([
+    [0, 8, 0],
+    [1, 8, 1],
+    [2, 8, 1],
+    [3, 8, 2],
+    [6, 8, 3],
+    [7, 8, 4],
+    [8, 8, 4],
+    [0, 0, 0],
+  ])('%i of %i -> %i', (count, max, level) => {
+    expect(activityLevel(count, max)).toBe(level)
+  })
+})
+
+describe('activityWeeks', () => {
+  test('pads to Monday-first weeks on both ends', () => {
+    // 2025-01-01 is a Wednesday, the 10 days run through Friday the 10th
+    const weeks = activityWeeks({
+      from: '2025-01-01',
+      counts: [1, 0, 0, 0, 0, 0, 2, 0, 0, 4],
+    })
+
+    expect(weeks).toHaveLength(2)
+    expect(weeks.every((week) => week.length === 7)).toBe(true)
+    expect(weeks[0].slice(0, 2)).toEqual([null, null])
+    expect(weeks[0][2]).toEqual({ date: '2025-01-01', count: 1, level: 1 })
+    expect(weeks[0][6]).toEqual({ date: '2025-01-05', count: 0, level: 0 })
+    expect(weeks[1][4]).toEqual({ date: '2025-01-10', count: 4, level: 4 })
+    expect(weeks[1].slice(5)).toEqual([null, null])
+  })
+
+  test('steps calendar days across a month end and a DST change', () => {
+    // Europe's clocks go forward on 2025-03-30; a day is still one day
+    const weeks = activityWeeks({
+      from: '2025-03-24',
+      counts: Array.from({ length: 14 }, () => 1),
+    })
+    expect(weeks.flat().map((day) => day?.date)).toEqual(
+      Array.from({ length: 14 }, (_, index) =>
+        index < 8 ? `2025-03-${24 + index}` : `2025-04-0${index - 7}`,
+      ),
+    )
+  })
+})
@@ -0,0 +1,55 @@
+/**
+ * The activity heatmap's grid: the script publishes a flat run of per-day
+ * counts, this lays them out as week columns, Monday on top. The dates are
+ * the site's zoned dates already, so the grid only does calendar arithmetic
+ * on them and never asks the browser what day it is.
+ */
+
+import { getISODay } from 'date-fns'
+import { civilDate, shiftDate } from '@/shared/lib/zoned-date'
+import type { WatchlogActivity } from '../types'
+
+export interface ActivityDay {
+  date: string
+  count: number
+  /** 0 for no plays, then 1-4 by share of the busiest day */
+  level: 0 | 1 | 2 | 3 | 4
+}
+
+/** One column per week; null pads the days outside the series */
+export type ActivityWeek = (ActivityDay | null)[]
+
+export function activityLevel(
+  count: number,
+  max: number,
+): ActivityDay['level'] {
+  if (count <= 0 || max <= 0) return 0
+  return Math.min(4, Math.ceil((count / max) * 4)) as ActivityDay['level']
+}
+
+export function activityWeeks({
+  from,
+  counts,
+}: WatchlogActivity): ActivityWeek[] {
+  const max = Math.max(0, ...counts)
+  // Monday is 0: the first column starts on the Monday before `from`
+  const lead = getISODay(civilDate(from)) - 1
+  const cells: (ActivityDay | null)[] = [
+    ...Array.from({ length: lead }, () => null),
+    ...counts.map((count, index) => ({
+      date: shiftDate(from, index),
+      count,
+      level: activityLevel(count, max),
+    })),
+  ]
+
+  const weeks: ActivityWeek[] = []
+  for (let start = 0; start < cells.length; start += 7) {
+    const week = cells.slice(start, start + 7)
+    weeks.push([
+      ...week,
+      ...Array.from({ length: 7 - week.length }, () => null),
+    ])
+  }
+  return weeks
+}
@@ -0,0 +1,34 @@
+/**
+ * The archive keeps the whole watch history, one file per year, next to the
+ * live file: `watchlog.json` holds the last few weeks, `watchlog-2024.json`
+ * holds 2024, and `watchlog-shows.json` every show across the years. Both
+ * the script and the frontend derive the names from here.
+ */
+
+/** `watchlog.json`, 2024 -> `watchlog-2024.json` */
+export function archiveFilename(filename: string, year: number): string {
+  const dot = filename.lastIndexOf('.')
+  if (dot === -1) return `${filename}-${year}`
+  return `${filename.slice(0, dot)}-${year}${filename.slice(dot)}`
+}
+
+/** The inverse: the year of an archive file, or undefined for any other file */
+export function archiveYear(
+  filename: string,
+  candidate: string,
+): number | undefined {
+  const dot = filename.lastIndexOf('.')
+  const stem = dot === -1 ? filename : filename.slice(0, dot)
+  const ext = dot === -1 ? '' : filename.slice(dot)
+  if (!candidate.startsWith(`${stem}-`) || !candidate.endsWith(ext)) return
+
+  const year = candidate.slice(stem.length + 1, candidate.length - ext.length)
+  return /^\d{4}$/.test(year) ? Number(year) : undefined
+}
+
+/** `watchlog.json` -> `watchlog-shows.json`, which archiveYear passes over */
+export function showsFilename(filename: string): string {
+  const dot = filename.lastIndexOf('.')
+  if (dot === -1) return `${filename}-shows`
+  return `${filename.slice(0, dot)}-shows${filename.slice(dot)}`
+}
@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test'
+import type { CalendarItem } from '../types'
+import { calendarMonths, monthWeeks, shiftMonth } from './calendar-grid'
+
+const item = (date: string): CalendarItem => ({
+  type: 'movie',
+  title: 'a',
+  date,
+  trakt_url: 'https://trakt.tv',
+})
+
+describe('monthWeeks', () => {
+  test('starts on Monday and pads the weeks around the month', () => {
+    // March 2026 opens on a Sunday and closes on a Tuesday
+    const weeks = monthWeeks('2026-03')
+    expect(weeks).toHaveLength(6)
+    expect(weeks[0]).toEqual([null, null, null, null, null, null, '2026-03-01'])
+    expect(weeks[1][0]).toBe('2026-03-02')
+    expect(weeks[5]).toEqual([
+      '2026-03-30',
+      '2026-03-31',
+      null,
+      null,
+      null,
+      null,
+      null,
+    ])
+  })
+
+  test('fits a month that opens on a Monday without padding it', () => {
+    // February 2027: 28 days from a Monday
+    const weeks = monthWeeks('2027-02')
+    expect(weeks).toHaveLength(4)
+    expect(weeks.flat()).not.toContain(null)
+    expect(weeks[3][6]).toBe('2027-02-28')
+  })
+
+  test('counts a leap day', () => {
+    expect(monthWeeks('2028-02').flat()).toContain('2028-02-29')
+  })
+})
+
+describe('shiftMonth', () => {
+  test('steps across years both ways', () => {
+    expect(shiftMonth('2026-12', 1)).toBe('2027-01')
+    expect(shiftMonth('2026-01', -1)).toBe('2025-12')
+    expect(shiftMonth('2026-03', 0)).toBe('2026-03')
+  })
+})
+
+describe('calendarMonths', () => {
+  test("runs from today's month through the last item's", () => {
+    expect(
+      calendarMonths([item('2026-05-02'), item('2026-03-20')], '2026-03-10'),
+    ).toEqual(['2026-03', '2026-04', '2026-05'])
+  })
+
+  test("is just today's month without items", () => {
+    expect(calendarMonths([], '2026-03-10')).toEqual(['2026-03'])
+  })
+})
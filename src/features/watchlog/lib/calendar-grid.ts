@@ -0,0 +1,58 @@
+/**
+ * The premieres' month grid: like the activity heatmap, it lays zoned
+ * YYYY-MM-DD dates out in Monday-first weeks, so which day a cell is never
+ * depends on the visitor's time zone. Weeks are rows here, not columns.
+ */
+
+import { getDaysInMonth, getISODay } from 'date-fns'
+import { civilDate, shiftDate } from '@/shared/lib/zoned-date'
+import type { CalendarItem } from '../types'
+
+/** One row per week; null pads the days of the months around it */
+export type CalendarWeek = (string | null)[]
+
+export function monthWeeks(month: string): CalendarWeek[] {
+  const first = `${month}-01`
+  const lead = getISODay(civilDate(first)) - 1
+  const cells: (string | null)[] = [
+    ...Array.from({ length: lead }, () => null),
+    ...Array.from({ length: getDaysInMonth(civilDate(first)) }, (_, index) =>
+      shiftDate(first, index),
+    ),
+  ]
+
+  const weeks: CalendarWeek[] = []
+  for (let start = 0; start < cells.length; start += 7) {
+    const week = cells.slice(start, start + 7)
+    weeks.push([
+      ...week,
+      ...Array.from({ length: 7 - week.length }, () => null),
+    ])
+  }
+  return weeks
+}
+
+/** `2026-03` -> `2026-04`, and back with -1 */
+export function shiftMonth(month: string, by: number): string {
+  const [year, index] = month.split('-').map(Number)
+  const months = year * 12 + index - 1 + by
+  return `${Math.floor(months / 12)}-${String((months % 12) + 1).padStart(2, '0')}`
+}
+
+/**
+ * The months the grid pages through: today's through the last premiere's,
+ * with the empty ones between kept so paging never skips a month.
+ */
+export function calendarMonths(items: CalendarItem[], today: string): string[] {
+  const first = today.slice(0, 7)
+  const last = items.reduce(
+    (last, item) =>
+      item.date.slice(0, 7) > last ? item.date.slice(0, 7) : last,
+    first,
+  )
+  const months = [first]
+  while (months[months.length - 1] < last) {
+    months.push(shiftMonth(months[months.length - 1], 1))
+  }
+  return months
+}
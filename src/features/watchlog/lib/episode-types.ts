@@ -0,0 +1,21 @@
+import type { EpisodeType } from '../types'
+
+/** How an episode's place in its season reads, on a card or in a feed */
+export const EPISODE_TYPE_LABELS: Record<EpisodeType, string> = {
+  series_premiere: 'New Series',
+  season_premiere: 'Season Premiere',
+  mid_season_premiere: 'Mid-Premiere',
+  mid_season_finale: 'Mid-Finale',
+  season_finale: 'Season Finale',
+  series_finale: 'The End',
+  standard: 'Episode',
+}
+
+/** What a badge's colour says: a run ending, one starting, or neither */
+export type EpisodeTone = 'finale' | 'premiere' | 'plain'
+
+export function episodeTone(type?: EpisodeType): EpisodeTone {
+  if (type?.includes('finale')) return 'finale'
+  if (type?.includes('premiere')) return 'premiere'
+  return 'plain'
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test'
+import type { WatchlogItem } from '../types'
+import {
+  filterItems,
+  itemYears,
+  readFilters,
+  writeFilters,
+  type ItemFilters,
+} from './item-filters'
+
+const item = (
+  type: WatchlogItem['type'],
+  year: number,
+  rating?: number,
+): WatchlogItem => ({
+  type,
+  title: `${type}-${year}`,
+  year,
+  watched_at: '2025-01-10',
+  trakt_url: 'https://trakt.tv',
+  ...(rating && { rating }),
+})
+
+describe('readFilters', () => {
+  test('reads types, rating and year', () => {
+    expect(
+      readFilters(new URLSearchParams('type=season,movie&rating=8&year=2024')),
+    ).toEqual({ types: ['movie', 'season'], minRating: 8, year: 2024 })
+  })
+
+  test('a malformed URL reads as no filter', () => {
+    expect(
+      readFilters(new URLSearchParams('type=show,,movie&rating=11&year=24x')),
+    ).toEqual({ types: ['movie'] })
+    expect(readFilters(new URLSearchParams())).toEqual({ types: [] })
+  })
+})
+
+describe('writeFilters', () => {
+  test('round-trips and drops what is unset, other params kept', () => {
+    const filters: ItemFilters = { types: ['episode'], minRating: 9 }
+    const params = writeFilters(new URLSearchParams('year=2020&tab=x'), filters)
+    expect(params.toString()).toBe('tab=x&type=episode&rating=9')
+    expect(readFilters(params)).toEqual(filters)
+  })
+})
+
+describe('filterItems', () => {
+  const items = [
+    item('movie', 2024, 9),
+    item('season', 2024, 7),
+    item('episode', 2023),
+    item('movie', 2023, 8),
+  ]
+  const titles = (filters: ItemFilters) =>
+    filterItems(items, filters).map((i) => i.title)
+
+  test('no filter keeps everything', () => {
+    expect(titles({ types: [] })).toHaveLength(4)
+  })
+
+  test('filters combine, unrated items fail a rating filter', () => {
+    expect(titles({ types: ['movie', 'episode'], minRating: 8 })).toEqual([
+      'movie-2024',
+      'movie-2023',
+    ])
+    expect(titles({ types: [], year: 2023 })).toEqual([
+      'episode-2023',
+      'movie-2023',
+    ])
+  })
+
+  test('years offered newest first, once each', () => {
+    expect(itemYears(items)).toEqual([2024, 2023])
+  })
+})
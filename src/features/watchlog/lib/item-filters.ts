@@ -0,0 +1,82 @@
+/**
+ * Filters for the Recently Watched grid, kept in the query string so a
+ * filtered view can be shared: `?type=movie,season&rating=8&year=2024`.
+ * Anything the URL gets wrong reads as no filter rather than an error.
+ */
+
+import type { WatchlogItem } from '../types'
+
+export type ItemType = WatchlogItem['type']
+
+export const ITEM_TYPES: ItemType[] = ['movie', 'episode', 'season']
+
+export interface ItemFilters {
+  /** Empty means every type */
+  types: ItemType[]
+  /** My rating, 1-10 */
+  minRating?: number
+  /** Release year */
+  year?: number
+}
+
+const isItemType = (value: string): value is ItemType =>
+  (ITEM_TYPES as string[]).includes(value)
+
+function readInteger(
+  value: string | null,
+  min: number,
+  max: number,
+): number | undefined {
+  if (value === null || !/^\d+$/.test(value)) return undefined
+  const number = Number(value)
+  return number >= min && number <= max ? number : undefined
+}
+
+export function readFilters(params: URLSearchParams): ItemFilters {
+  const types = (params.get('type') ?? '').split(',').filter(isItemType)
+  const minRating = readInteger(params.get('rating'), 1, 10)
+  const year = readInteger(params.get('year'), 1800, 9999)
+  return {
+    // In the chips' order, once each, whatever the URL said
+    types: ITEM_TYPES.filter((type) => types.includes(type)),
+    ...(minRating && { minRating }),
+    ...(year && { year }),
+  }
+}
+
+/** The filters over `params`, other parameters left as they were */
+export function writeFilters(
+  params: URLSearchParams,
+  filters: ItemFilters,
+): URLSearchParams {
+  const next = new URLSearchParams(params)
+  const set = (key: string, value?: string) =>
+    value ? next.set(key, value) : next.delete(key)
+
+  set('type', filters.types.join(','))
+  set('rating', filters.minRating?.toString())
+  set('year', filters.year?.toString())
+  return next
+}
+
+export const hasFilters = (filters: ItemFilters) =>
+  filters.types.length > 0 ||
+  filters.minRating !== undefined ||
+  filters.year !== undefined
+
+export function filterItems(
+  items: WatchlogItem[],
+  { types, minRating, year }: ItemFilters,
+): WatchlogItem[] {
+  return items.filter(
+    (item) =>
+      (types.length === 0 || types.includes(item.type)) &&
+      (minRating === undefined || (item.rating ?? 0) >= minRating) &&
+      (year === undefined || item.year === year),
+  )
+}
+
+/** Release years present in the items, newest first */
+export function itemYears(items: WatchlogItem[]): number[] {
+  return [...new Set(items.map((item) => item.year))].sort((a, b) => b - a)
+}
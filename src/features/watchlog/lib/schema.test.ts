@@ -0,0 +1,165 @@
+import { describe, expect, test } from 'bun:test'
+import { SchemaError } from '@/shared/lib/schema'
+import type { WatchlogData } from '../types'
+import {
+  WATCHLOG_SCHEMA_VERSION,
+  parseWatchlog,
+  parseWatchlogArchive,
+} from './schema'
+
+const payload = (overrides: Record<string, unknown> = {}): WatchlogData => ({
+  schema_version: WATCHLOG_SCHEMA_VERSION,
+  updated_at: '2025-01-10T12:00:00Z',
+  items: [
+    {
+      type: 'movie',
+      title: 'Arrival',
+      year: 2016,
+      watched_at: 'Today',
+      trakt_url: 'https://trakt.tv/movies/arrival-2016',
+      rating: 9,
+    },
+  ],
+  stats: { movies_watched: 1, shows_watched: 0, total_hours: 2 },
+  calendar: [
+    {
+      type: 'episode',
+      title: 'Severance',
+      subtitle: 'S2 E1',
+      date: '2025-01-17',
+      trakt_url: 'https://trakt.tv/shows/severance/seasons/2/episodes/1',
+      episode_type: 'season_premiere',
+    },
+  ],
+  watchlist: [
+    {
+      type: 'movie',
+      title: 'Dune: Part Two',
+      year: 2024,
+      trakt_url: 'https://trakt.tv/movies/dune-part-two-2024',
+      listed_at: '2024-11-02T18:30:00.000Z',
+      released: '2024-03-01',
+    },
+  ],
+  progress: [],
+  archive_years: [2025, 2024],
+  ...overrides,
+})
+
+const failure = (raw: unknown) => {
+  try {
+    parseWatchlog(raw)
+  } catch (error) {
+    if (error instanceof SchemaError) return error.message
+    throw error
+  }
+  throw new Error('parsed')
+}
+
+describe('parseWatchlog', () => {
+  test('passes a current payload through unchanged', () => {
+    expect(parseWatchlog(payload())).toEqual(payload())
+  })
+
+  test('reads a payload from before versioning as version 1', () => {
+    const legacy: Partial<WatchlogData> = payload()
+    delete legacy.schema_version
+    expect(parseWatchlog(legacy).schema_version).toBe(1)
+  })
+
+  test('refuses a payload from a newer script', () => {
+    expect(
+      failure(payload({ schema_version: WATCHLOG_SCHEMA_VERSION + 1 })),
+    ).toBe(`schema_version: expected at most ${WATCHLOG_SCHEMA_VERSION}`)
+  })
+
+  test.each<[string, Record<string, unknown>, string]>([
+    ['a missing list', { items: undefined }, 'items: expected an array'],
+    [
+      'a wrong field type',
+      { stats: { movies_watched: '1', shows_watched: 0, total_hours: 2 } },
+      'stats.movies_watched: expected a number',
+    ],
+    [
+      'an unknown card type',
+      { items: [{ ...payload().items[0], type: 'show' }] },
+      'items[0].type: expected one of episode, season, movie',
+    ],
+  ])('names the path of %s', (_, overrides, message) => {
+    expect(failure(payload(overrides))).toBe(message)
+  })
+
+  test('tolerates a file from before the later lists', () => {
+    const data = parseWatchlog(
+      payload({
+        watchlist: undefined,
+        progress: undefined,
+        archive_years: undefined,
+      }),
+    )
+    expect(data.watchlist).toEqual([])
+    expect(data.progress).toEqual([])
+    expect(data.archive_years).toEqual([])
+  })
+
+  test('still checks a list that is present', () => {
+    expect(failure(payload({ watchlist: [{ type: 'movie' }] }))).toBe(
+      'watchlist[0].title: expected a string',
+    )
+  })
+
+  test('drops an episode type Trakt added since, keeping the item', () => {
+    const [item] = parseWatchlog(
+      payload({
+        calendar: [{ ...payload().calendar[0], episode_type: 'recap' }],
+      }),
+    ).calendar
+    expect(item.title).toBe('Severance')
+    expect('episode_type' in item).toBe(false)
+  })
+
+  test('refuses a comment without its spoiler flag', () => {
+    const comment = {
+      kind: 'review',
+      excerpt: 'Quiet and huge.',
+      url: 'https://trakt.tv/comments/1',
+    }
+    expect(() =>
+      parseWatchlog(payload({ items: [{ ...payload().items[0], comment }] })),
+    ).toThrow('items[0].comment.spoiler: expected a boolean')
+
+    const [item] = parseWatchlog(
+      payload({
+        items: [
+          { ...payload().items[0], comment: { ...comment, spoiler: false } },
+        ],
+      }),
+    ).items
+    expect(item.comment?.kind).toBe('review')
+  })
+
+  test('leaves absent optional fields absent, not undefined', () => {
+    const [item] = parseWatchlog(
+      payload({ items: [{ ...payload().items[0], rating: null }] }),
+    ).items
+    expect('rating' in item).toBe(false)
+    expect('poster' in item).toBe(false)
+  })
+})
+
+describe('parseWatchlogArchive', () => {
+  test('drops the plays only the script reads', () => {
+    const archive = parseWatchlogArchive({
+      updated_at: '2025-01-10T12:00:00Z',
+      year: 2024,
+      items: payload().items,
+      plays: [{ id: 1 }],
+    })
+    expect(archive).toEqual({
+      schema_version: 1,
+      updated_at: '2025-01-10T12:00:00Z',
+      year: 2024,
+      items: payload().items,
+    })
+  })
+})
@@ -0,0 +1,211 @@
+import {
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  orElse,
+  parseWith,
+  string,
+  versioned,
+  withDefault,
+} from '@/shared/lib/schema'
+import type {
+  CalendarItem,
+  ExtendedStats,
+  SeasonDetail,
+  ShowDetail,
+  ShowProgress,
+  WatchlistItem,
+  WatchlogActivity,
+  WatchlogArchive,
+  WatchlogComment,
+  WatchlogData,
+  WatchlogItem,
+  WatchlogShows,
+  WatchlogStats,
+  YearRecap,
+} from '../types'
+
+/**
+ * The watchlog payloads as sync-trakt writes them. Bump the version when a
+ * field changes meaning or goes away; a new optional field needs no bump,
+ * only a tolerance here for files written before it.
+ */
+export const WATCHLOG_SCHEMA_VERSION = 1
+
+const comment = object<WatchlogComment>({
+  kind: oneOf('review', 'shout'),
+  excerpt: string,
+  spoiler: boolean,
+  url: string,
+})
+
+const item = object<WatchlogItem>({
+  type: oneOf('episode', 'season', 'movie'),
+  title: string,
+  subtitle: optional(string),
+  year: number,
+  poster: optional(string),
+  watched_at: string,
+  trakt_url: string,
+  rating: optional(number),
+  plays: optional(number),
+  comment: optional(comment),
+})
+
+const extendedStats = object<ExtendedStats>({
+  episodes_watched: number,
+  movie_hours: number,
+  episode_hours: number,
+  movie_plays: number,
+  episode_plays: number,
+  movies_collected: number,
+  episodes_collected: number,
+  comments: number,
+  ratings: array(number),
+})
+
+const stats = object<WatchlogStats>({
+  movies_watched: number,
+  shows_watched: number,
+  total_hours: number,
+  // Files from before it only fill the three counters
+  extended: optional(extendedStats),
+})
+
+const calendarItem = object<CalendarItem>({
+  type: oneOf('episode', 'season', 'movie'),
+  title: string,
+  subtitle: optional(string),
+  date: string,
+  poster: optional(string),
+  trakt_url: string,
+  // Passed through from Trakt as is: a type added there is only a lost badge
+  episode_type: orElse(
+    oneOf(
+      'standard',
+      'series_premiere',
+      'season_premiere',
+      'mid_season_premiere',
+      'mid_season_finale',
+      'season_finale',
+      'series_finale',
+    ),
+    undefined,
+  ),
+})
+
+const watchlistItem = object<WatchlistItem>({
+  type: oneOf('movie', 'show', 'season', 'episode'),
+  title: string,
+  subtitle: optional(string),
+  year: optional(number),
+  poster: optional(string),
+  trakt_url: string,
+  listed_at: string,
+  released: optional(string),
+})
+
+const showProgress = object<ShowProgress>({
+  title: string,
+  poster: optional(string),
+  trakt_url: string,
+  aired: number,
+  completed: number,
+  next_episode: object({
+    subtitle: string,
+    title: optional(string),
+    trakt_url: string,
+  }),
+  last_watched_at: string,
+})
+
+const activity = object<WatchlogActivity>({
+  from: string,
+  counts: array(number),
+})
+
+export const parseWatchlog = parseWith(
+  versioned<WatchlogData>(
+    WATCHLOG_SCHEMA_VERSION,
+    object({
+      updated_at: string,
+      items: array(item),
+      stats,
+      calendar: array(calendarItem),
+      // Each list below is absent from files written before it existed
+      watchlist: withDefault(array(watchlistItem), []),
+      progress: withDefault(array(showProgress), []),
+      activity: optional(activity),
+      archive_years: withDefault(array(number), []),
+    }),
+  ),
+)
+
+const recap = object<YearRecap>({
+  plays: number,
+  movies: number,
+  shows: number,
+  episodes: number,
+  hours: number,
+  top_movies: array(item),
+  top_seasons: array(item),
+  busiest_month: optional(object({ month: string, plays: number })),
+  longest_binge: optional(
+    object({
+      title: string,
+      date: string,
+      episodes: number,
+      trakt_url: string,
+    }),
+  ),
+})
+
+export const parseWatchlogArchive = parseWith(
+  versioned<WatchlogArchive>(
+    WATCHLOG_SCHEMA_VERSION,
+    object({
+      updated_at: string,
+      year: number,
+      items: array(item),
+      // A year not rewritten since still shows its wall
+      recap: optional(recap),
+    }),
+  ),
+)
+
+const seasonDetail = object<SeasonDetail>({
+  season: number,
+  subtitle: string,
+  episodes: number,
+  plays: number,
+  first_watched: string,
+  last_watched: string,
+  year: optional(number),
+  poster: optional(string),
+  trakt_url: string,
+  rating: optional(number),
+})
+
+const showDetail = object<ShowDetail>({
+  slug: string,
+  title: string,
+  year: number,
+  poster: optional(string),
+  trakt_url: string,
+  rating: optional(number),
+  last_watched: string,
+  seasons: array(seasonDetail),
+})
+
+export const parseWatchlogShows = parseWith(
+  versioned<WatchlogShows>(
+    WATCHLOG_SCHEMA_VERSION,
+    object({
+      updated_at: string,
+      shows: array(showDetail),
+    }),
+  ),
+)
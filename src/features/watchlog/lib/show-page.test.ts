@@ -0,0 +1,25 @@
+import { describe, expect, test } from 'bun:test'
+import { isShowUrl, showPath } from './show-page'
+
+describe('showPath', () => {
+  test.each([
+    ['https://trakt.tv/shows/severance', '/watchlog/show/severance'],
+    ['https://trakt.tv/shows/severance/seasons/2', '/watchlog/show/severance'],
+    [
+      'https://trakt.tv/shows/severance/seasons/2/episodes/3',
+      '/watchlog/show/severance',
+    ],
+    ['https://trakt.tv/movies/heat-1995', undefined],
+  ])('%s -> %s', (url, path) => {
+    expect(showPath(url)).toBe(path)
+  })
+})
+
+describe('isShowUrl', () => {
+  test('matches the whole slug, not a prefix of it', () => {
+    expect(isShowUrl('https://trakt.tv/shows/dark/seasons/1', 'dark')).toBe(
+      true,
+    )
+    expect(isShowUrl('https://trakt.tv/shows/dark-matter', 'dark')).toBe(false)
+  })
+})
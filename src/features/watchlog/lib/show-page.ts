@@ -0,0 +1,17 @@
+/**
+ * Show pages live at `/watchlog/show/<slug>`, under Trakt's own slug, so any
+ * card that carries a Trakt show, season or episode URL can point there.
+ */
+
+const SHOW_URL = /^https:\/\/trakt\.tv\/shows\/([^/?#]+)/
+
+/** `https://trakt.tv/shows/severance/seasons/2` -> `/watchlog/show/severance` */
+export function showPath(traktUrl: string): string | undefined {
+  const slug = SHOW_URL.exec(traktUrl)?.[1]
+  return slug && `/watchlog/show/${slug}`
+}
+
+/** Calendar entries and other Trakt URLs that belong to the show */
+export function isShowUrl(traktUrl: string, slug: string): boolean {
+  return SHOW_URL.exec(traktUrl)?.[1] === slug
+}
@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test'
+import type { CalendarItem } from '../types'
+import {
+  cardRange,
+  countdownLabel,
+  dateSlots,
+  formatMonth,
+  HIGHLIGHT_TYPES,
+  isHighlight,
+  monthStarts,
+} from './timeline'
+
+const item = (
+  type: CalendarItem['type'],
+  episode_type?: CalendarItem['episode_type'],
+): CalendarItem => ({
+  type,
+  title: 'a',
+  date: '2026-03-01',
+  trakt_url: 'https://trakt.tv',
+  ...(episode_type && { episode_type }),
+})
+
+describe('isHighlight', () => {
+  test('movies and every labelled type but the plain episode', () => {
+    expect(isHighlight(item('movie'))).toBe(true)
+    expect(isHighlight(item('episode', 'standard'))).toBe(false)
+    expect(isHighlight(item('season'))).toBe(false)
+    for (const type of HIGHLIGHT_TYPES) {
+      expect(isHighlight(item('episode', type))).toBe(true)
+    }
+    expect(HIGHLIGHT_TYPES).not.toContain('standard')
+  })
+})
+
+describe('countdownLabel', () => {
+  test.each([
+    ['2026-03-01', 'today'],
+    ['2026-03-02', 'tomorrow'],
+    ['2026-03-31', 'in 30 days'],
+    // Across the March DST change: calendar days, not 24-hour spans
+    ['2026-04-01', 'in 31 days'],
+  ])('%s -> %s', (date, label) => {
+    expect(countdownLabel(date, '2026-03-01')).toBe(label)
+  })
+})
+
+describe('formatMonth', () => {
+  test("the year only outside today's", () => {
+    expect(formatMonth('2026-03', '2026-01-15')).toBe('March')
+    expect(formatMonth('2027-01', '2026-01-15')).toBe('January 2027')
+  })
+})
+
+describe('dateSlots', () => {
+  test("each date starts where the previous one's cards end", () => {
+    expect(
+      dateSlots([
+        { date: '2026-01-30', count: 2 },
+        { date: '2026-01-31', count: 1 },
+        { date: '2026-02-02', count: 3 },
+      ]).map((day) => day.start),
+    ).toEqual([0, 2, 3])
+  })
+})
+
+describe('monthStarts', () => {
+  test('offsets count the cards before each month', () => {
+    expect(
+      monthStarts([
+        { date: '2026-01-30', count: 2 },
+        { date: '2026-01-31', count: 1 },
+        { date: '2026-02-02', count: 3 },
+        { date: '2026-04-01', count: 1 },
+      ]),
+    ).toEqual([
+      { month: '2026-01', offset: 0 },
+      { month: '2026-02', offset: 3 },
+      { month: '2026-04', offset: 6 },
+    ])
+  })
+})
+
+describe('cardRange', () => {
+  test('the cards a span touches, widened by the overscan', () => {
+    // Slots of 100: 250..480 touches cards 2, 3 and 4
+    expect(cardRange(250, 480, 100, 0)).toEqual({ first: 2, last: 5 })
+    expect(cardRange(250, 480, 100, 2)).toEqual({ first: 0, last: 7 })
+  })
+
+  test('never starts before the first card', () => {
+    expect(cardRange(0, 300, 100, 5)).toEqual({ first: 0, last: 8 })
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * Pure helpers for the premieres timeline. Dates are the zoned YYYY-MM-DD
+ * strings the calendar carries, and `today` is one too, so a countdown
+ * never depends on the visitor's own time zone.
+ */
+
+import { differenceInCalendarDays, format } from 'date-fns'
+import { civilDate } from '@/shared/lib/zoned-date'
+import type { CalendarItem, EpisodeType } from '../types'
+import { EPISODE_TYPE_LABELS } from './episode-types'
+
+/** Every labelled type but the plain episode, in the labels' order */
+export const HIGHLIGHT_TYPES = (
+  Object.keys(EPISODE_TYPE_LABELS) as EpisodeType[]
+).filter((type) => type !== 'standard')
+
+/**
+ * Movies and premieres or finales. An episode whose type Trakt did not say,
+ * or said in a way this build does not know, is not one.
+ */
+export function isHighlight(item: CalendarItem): boolean {
+  if (item.type === 'movie') return true
+  return item.episode_type !== undefined && item.episode_type !== 'standard'
+}
+
+/** `today`, `tomorrow`, `in 5 days` */
+export function countdownLabel(date: string, today: string): string {
+  const days = differenceInCalendarDays(civilDate(date), civilDate(today))
+  if (days <= 0) return 'today'
+  if (days === 1) return 'tomorrow'
+  return `in ${days} days`
+}
+
+/** `2026-03` -> `March`, or `March 2027` outside today's year */
+export function formatMonth(month: string, today: string): string {
+  const date = civilDate(`${month}-01`)
+  return format(
+    date,
+    month.startsWith(today.slice(0, 4)) ? 'MMMM' : 'MMMM yyyy',
+  )
+}
+
+export interface DateSlots {
+  date: string
+  /** Slot of the date's first card */
+  start: number
+  count: number
+}
+
+/** Cards per date in date order, placed in one row of slots */
+export function dateSlots(days: { date: string; count: number }[]) {
+  const slots: DateSlots[] = []
+  let start = 0
+  for (const { date, count } of days) {
+    slots.push({ date, start, count })
+    start += count
+  }
+  return slots
+}
+
+export interface MonthStart {
+  /** YYYY-MM */
+  month: string
+  /** Cards before the month's first one, which is how far to scroll */
+  offset: number
+}
+
+/** Where each month begins, given the cards per date in date order */
+export function monthStarts(days: { date: string; count: number }[]) {
+  const starts: MonthStart[] = []
+  let offset = 0
+  for (const { date, count } of days) {
+    const month = date.slice(0, 7)
+    if (starts[starts.length - 1]?.month !== month) {
+      starts.push({ month, offset })
+    }
+    offset += count
+  }
+  return starts
+}
+
+export interface CardRange {
+  first: number
+  /** Exclusive, and not clamped: the caller knows how many cards there are */
+  last: number
+}
+
+/**
+ * The cards a horizontal span touches, plus `overscan` on either side. Every
+ * card takes the same slot (its width and one gap), so this is arithmetic
+ * rather than measurement.
+ */
+export function cardRange(
+  left: number,
+  right: number,
+  slot: number,
+  overscan: number,
+): CardRange {
+  return {
+    first: Math.max(0, Math.floor(left / slot) - overscan),
+    last: Math.ceil(right / slot) + overscan,
+  }
+}
@@ -0,0 +1,87 @@
+import { afterAll, describe, expect, setSystemTime, test } from 'bun:test'
+import { formatWatchedAtAuto, parseWatchedAt } from './watched-date'
+
+// Europe/Moscow is UTC+3 all year: 21:00Z is midnight there
+describe('formatWatchedAtAuto', () => {
+  const reference = new Date('2025-01-10T12:00:00Z')
+
+  test.each([
+    ['same day', '2025-01-10T08:00:00Z', '2025-01-10'],
+    ['6 days ago is still a day', '2025-01-04T12:00:00Z', '2025-01-04'],
+    ['7 days ago becomes a week', '2025-01-03T12:00:00Z', '2025-W01'],
+    ['29 days ago is still a week', '2024-12-12T12:00:00Z', '2024-W50'],
+    ['30 days ago becomes a month', '2024-12-11T12:00:00Z', '2024-12'],
+    ['364 days ago is still a month', '2024-01-12T12:00:00Z', '2024-01'],
+    ['365 days ago becomes a year', '2024-01-11T12:00:00Z', '2024'],
+  ])('%s', (_, watchedAt, expected) => {
+    expect(formatWatchedAtAuto(watchedAt, reference)).toBe(expected)
+  })
+
+  test.each([
+    ['a second before Moscow midnight', '2025-01-09T20:59:59Z', '2025-01-09'],
+    ['Moscow midnight', '2025-01-09T21:00:00Z', '2025-01-10'],
+    ['late UTC evening, next Moscow day', '2025-01-09T23:30:00Z', '2025-01-10'],
+  ])('%s', (_, watchedAt, expected) => {
+    expect(formatWatchedAtAuto(watchedAt, reference)).toBe(expected)
+  })
+
+  test('counts days from the Moscow date of the reference too', () => {
+    // Jan 11 in Moscow already, so Jan 4 is 7 days back, not 6
+    const pastMidnight = new Date('2025-01-10T21:30:00Z')
+    expect(formatWatchedAtAuto('2025-01-04T12:00:00Z', pastMidnight)).toBe(
+      '2025-W01',
+    )
+    expect(formatWatchedAtAuto('2025-01-05T12:00:00Z', pastMidnight)).toBe(
+      '2025-01-05',
+    )
+  })
+
+  test.each([
+    // Monday Dec 30 2024 opens ISO week 1 of 2025
+    [
+      'Dec 30 in next year week 1',
+      '2024-12-30T12:00:00Z',
+      '2025-01-10',
+      '2025-W01',
+    ],
+    // Friday Jan 1 2021 still belongs to week 53 of 2020
+    [
+      'Jan 1 in last year week 53',
+      '2021-01-01T12:00:00Z',
+      '2021-01-15',
+      '2020-W53',
+    ],
+    [
+      'Sunday Dec 29 in week 52',
+      '2024-12-29T12:00:00Z',
+      '2025-01-10',
+      '2024-W52',
+    ],
+  ])('ISO week-year: %s', (_, watchedAt, today, expected) => {
+    const ref = new Date(`${today}T12:00:00Z`)
+    expect(formatWatchedAtAuto(watchedAt, ref)).toBe(expected)
+  })
+})
+
+describe('parseWatchedAt', () => {
+  setSystemTime(new Date('2025-01-10T12:00:00Z'))
+  afterAll(() => setSystemTime())
+
+  test.each([
+    ['2025-01-10', 'Today'],
+    // A browser clock running behind must still say Today
+    ['2025-01-11', 'Today'],
+    ['2025-01-09', 'Yesterday'],
+    ['2025-01-05', '5d ago'],
+    // Day precision past its window: an item the script wrote days ago
+    ['2024-12-27', '2w ago'],
+    ['2024-10-10', '3mo ago'],
+    ['2023-01-01', '2y ago'],
+    ['2024-W52', '2w ago'],
+    ['2025-W02', '1w ago'],
+    ['2024-11', '2mo ago'],
+    ['2023', '2y ago'],
+  ])('%s -> %s', (watchedAt, expected) => {
+    expect(parseWatchedAt(watchedAt)).toBe(expected)
+  })
+})
@@ -7,12 +7,48 @@ export interface WatchlogItem {
   watched_at: string
   trakt_url: string
   rating?: number
+  /**
+   * Set on a rewatch: which play of the title this card is, 2 for the first
+   * rewatch. A season card counts its least played episode.
+   */
+  plays?: number
+  /** My own comment on the title, as rated: episode, then season, then show */
+  comment?: WatchlogComment
+}
+
+/** One of my Trakt comments, cut to an excerpt */
+export interface WatchlogComment {
+  kind: 'review' | 'shout'
+  /** Plain text, spoiler tags removed */
+  excerpt: string
+  /** Hidden behind a click: flagged as one, or had tagged spoilers inside */
+  spoiler: boolean
+  /** The whole comment on Trakt */
+  url: string
 }
 
 export interface WatchlogStats {
   movies_watched: number
   shows_watched: number
   total_hours: number
+  /** Absent from files written before it was collected */
+  extended?: ExtendedStats
+}
+
+/** The rest of Trakt's `/users/me/stats`, hours rounded per side */
+export interface ExtendedStats {
+  episodes_watched: number
+  movie_hours: number
+  episode_hours: number
+  /** Plays count rewatches, `*_watched` unique titles */
+  movie_plays: number
+  episode_plays: number
+  movies_collected: number
+  episodes_collected: number
+  /** Across movies, shows, seasons and episodes */
+  comments: number
+  /** Ratings given per score: index 0 counts the 1s, index 9 the 10s */
+  ratings: number[]
 }
 
 export type EpisodeType =
@@ -34,9 +70,132 @@ export interface CalendarItem {
   episode_type?: EpisodeType
 }
 
+/** A title queued on the Trakt watchlist */
+export interface WatchlistItem {
+  type: 'movie' | 'show' | 'season' | 'episode'
+  title: string
+  subtitle?: string
+  /** Absent for titles not yet dated */
+  year?: number
+  poster?: string
+  trakt_url: string
+  /** ISO timestamp of when it went on the list */
+  listed_at: string
+  /** Movies only, YYYY-MM-DD */
+  released?: string
+}
+
+/** A show with aired episodes left to watch */
+export interface ShowProgress {
+  title: string
+  poster?: string
+  trakt_url: string
+  /** Episodes aired so far, specials left out */
+  aired: number
+  completed: number
+  next_episode: {
+    subtitle: string
+    title?: string
+    trakt_url: string
+  }
+  /** ISO timestamp of the latest play */
+  last_watched_at: string
+}
+
+/** Plays per day in the site's zone, counts only, oldest day first */
+export interface WatchlogActivity {
+  /** YYYY-MM-DD of `counts[0]`; the last count is the day of the sync */
+  from: string
+  counts: number[]
+}
+
 export interface WatchlogData {
+  /** Bumped on breaking changes, see lib/schema.ts */
+  schema_version: number
   updated_at: string
   items: WatchlogItem[]
   stats: WatchlogStats
   calendar: CalendarItem[]
+  /** Newest addition first */
+  watchlist: WatchlistItem[]
+  /** Most recently watched first */
+  progress: ShowProgress[]
+  /** Absent from files written before it */
+  activity?: WatchlogActivity
+  /** Years with an archive file, newest first (see lib/archive.ts) */
+  archive_years: number[]
+}
+
+/** One year of the full watch history, in its own file */
+export interface WatchlogArchive {
+  schema_version: number
+  updated_at: string
+  year: number
+  /** Grouped by show+season within a month, newest first */
+  items: WatchlogItem[]
+  /** Absent from files not rewritten since the recap was added */
+  recap?: YearRecap
+}
+
+/** A year in numbers, computed from its plays when the file is written */
+export interface YearRecap {
+  plays: number
+  /** Unique titles */
+  movies: number
+  shows: number
+  /** Episode plays, rewatches included */
+  episodes: number
+  /** Only plays Trakt reported a runtime for */
+  hours: number
+  /** Rated by me, best first; `watched_at` is the last play that year */
+  top_movies: WatchlogItem[]
+  top_seasons: WatchlogItem[]
+  /** `YYYY-MM` with the most plays, the earliest on a tie */
+  busiest_month?: { month: string; plays: number }
+  /** Most episodes of one show in one day, the earliest on a tie */
+  longest_binge?: {
+    title: string
+    date: string
+    episodes: number
+    trakt_url: string
+  }
+}
+
+/** Every show in the archive, one entry each, for the show pages */
+export interface WatchlogShows {
+  schema_version: number
+  updated_at: string
+  /** Most recently watched first */
+  shows: ShowDetail[]
+}
+
+export interface ShowDetail {
+  /** Trakt's, and the page's: `/watchlog/show/<slug>` */
+  slug: string
+  title: string
+  year: number
+  poster?: string
+  trakt_url: string
+  rating?: number
+  /** YYYY-MM-DD of the latest play */
+  last_watched: string
+  /** In season order, specials (season 0) first when watched */
+  seasons: SeasonDetail[]
+}
+
+export interface SeasonDetail {
+  season: number
+  /** The episodes watched, as `S1 E1-8` */
+  subtitle: string
+  /** Unique episodes; `plays` counts rewatches too */
+  episodes: number
+  plays: number
+  /** YYYY-MM-DD of the first and the latest play */
+  first_watched: string
+  last_watched: string
+  /** When the season first aired, if Trakt knows */
+  year?: number
+  poster?: string
+  trakt_url: string
+  rating?: number
 }
@@ -1,7 +1,7 @@
 import { useGistData } from '@/shared'
-import type { WhatsnextData } from '../types'
+import { parseWhatsnext } from '../lib/schema'
 
 const { GIST_FILENAME_WHATSNEXT } = import.meta.env
 
 export const useWhatsnextData = () =>
-  useGistData<WhatsnextData>(GIST_FILENAME_WHATSNEXT)
+  useGistData(GIST_FILENAME_WHATSNEXT, parseWhatsnext)
@@ -7,3 +7,4 @@ export { useWhatsnextData } from './hooks/useWhatsnextData'
 
 // Lib
 export { groupEvents } from './lib/events'
+export { feedUrl } from './lib/feeds'
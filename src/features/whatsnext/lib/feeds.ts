@@ -0,0 +1,8 @@
+import { dataUrl } from '@/shared'
+import { feedFilename, type FeedFormat } from '@/shared/lib/feeds'
+
+const { GIST_FILENAME_WHATSNEXT } = import.meta.env
+
+/** A feed sync-whatsnext writes next to the data file */
+export const feedUrl = (format: FeedFormat) =>
+  dataUrl(feedFilename(GIST_FILENAME_WHATSNEXT, format))
@@ -0,0 +1,44 @@
+import {
+  array,
+  number,
+  object,
+  optional,
+  parseWith,
+  record,
+  string,
+  versioned,
+} from '@/shared/lib/schema'
+import type { WhatsnextData, WhatsnextEvent } from '../types'
+
+/**
+ * The listing as sync-whatsnext writes it, which it also reads back as its
+ * own state. Bump the version when a field changes meaning or goes away.
+ */
+export const WHATSNEXT_SCHEMA_VERSION = 1
+
+const event = object<WhatsnextEvent>({
+  id: string,
+  date: string,
+  date_end: optional(string),
+  title: string,
+  description: string,
+  source_posts: array(string),
+  photo: optional(string),
+  // Photos rehosted before ratios were measured never get one, see
+  // rehostPhotos, and lay out at their natural height instead
+  photo_ratio: optional(number),
+  // Missing on events stored before the calendar tracked changes
+  updated_at: optional(string),
+  revision: optional(number),
+})
+
+export const parseWhatsnext = parseWith(
+  versioned<WhatsnextData>(
+    WHATSNEXT_SCHEMA_VERSION,
+    object({
+      updated_at: string,
+      cursors: record(number),
+      events: array(event),
+    }),
+  ),
+)
@@ -12,9 +12,15 @@ export interface WhatsnextEvent {
   photo?: string
   /** Width / height, measured from the photo's own bytes */
   photo_ratio?: number
+  /** When the script last wrote a change to it; absent on older events */
+  updated_at?: string
+  /** Rewrites that changed it, the calendar's SEQUENCE; absent reads as 0 */
+  revision?: number
 }
 
 export interface WhatsnextData {
+  /** Bumped on breaking changes, see lib/schema.ts */
+  schema_version: number
   updated_at: string
   /** channel -> num of the last processed post */
   cursors: Record<string, number>
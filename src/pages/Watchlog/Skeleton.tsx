@@ -9,6 +9,11 @@ export function WatchlogSkeleton() {
       {/* Recently Watched */}
       <section className="mb-16">
         <h2 className="section-heading mb-6">Recently Watched</h2>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {Array.from({ length: 7 }).map((_, i) => (
+            <Skeleton key={i} className="h-7 w-16 rounded-full" />
+          ))}
+        </div>
         <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
           {Array.from({ length: 10 }).map((_, i) => (
             <div key={i} className="card-surface overflow-hidden">
@@ -23,9 +28,47 @@ export function WatchlogSkeleton() {
         </div>
       </section>
 
+      {/* In Progress */}
+      <section className="mb-16">
+        <h2 className="section-heading mb-6">In Progress</h2>
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="flex gap-4 p-3 card-surface">
+              <Skeleton className="w-16 shrink-0 aspect-[2/3] rounded-lg" />
+              <div className="flex-1 flex flex-col justify-center">
+                <Skeleton className="h-5 w-3/4 mb-2 rounded-full" />
+                <Skeleton className="h-4 w-1/2 mb-3 rounded-full" />
+                <Skeleton className="h-1.5 w-full rounded-full" />
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* Up Next */}
+      <section className="mb-16">
+        <h2 className="section-heading mb-6">Up Next</h2>
+        <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <div key={i} className="card-surface overflow-hidden">
+              <Skeleton className="aspect-[2/3] rounded-none" />
+              <div className="p-3">
+                <Skeleton className="h-5 w-3/4 mb-2 rounded-full" />
+                <Skeleton className="h-4 w-1/2 mb-2 rounded-full" />
+                <Skeleton className="h-3 w-1/3 rounded-full" />
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
       {/* My Premieres */}
       <section className="mb-16">
         <h2 className="section-heading mb-2">My Premieres</h2>
+        <div className="flex justify-between mt-4">
+          <Skeleton className="h-7 w-36 rounded-full" />
+          <Skeleton className="h-7 w-32 rounded-full" />
+        </div>
         <div className="flex gap-3 overflow-hidden py-4">
           {Array.from({ length: 4 }).map((_, i) => (
             <div key={i} className="w-36 shrink-0 card-surface overflow-hidden">
@@ -37,7 +80,7 @@ export function WatchlogSkeleton() {
             </div>
           ))}
         </div>
-        <Skeleton className="h-5 w-64 max-w-full" />
+        <Skeleton className="h-16 w-64 max-w-full" />
       </section>
 
       {/* Statistics */}
@@ -52,6 +95,19 @@ export function WatchlogSkeleton() {
             </div>
           ))}
         </div>
+        <div className="mt-4 grid gap-4 md:grid-cols-2">
+          {Array.from({ length: 2 }).map((_, i) => (
+            <div key={i} className="p-4 sm:p-6 card-surface">
+              <Skeleton className="h-4 w-24 mb-4" />
+              <Skeleton className="h-2 w-full mb-2 rounded-full" />
+              <Skeleton className="h-4 w-full" />
+            </div>
+          ))}
+          <div className="md:col-span-2 p-4 sm:p-6 card-surface">
+            <Skeleton className="h-4 w-24 mb-4" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        </div>
       </section>
     </>
   )
@@ -1,25 +1,36 @@
+import { Link } from 'react-router-dom'
 import { formatDistanceToNowStrict } from 'date-fns'
 import {
+  feedUrl,
+  filterItems,
+  itemYears,
+  useItemFilters,
+  usePremieresView,
   useWatchlogData,
+  ActivityHeatmap,
+  CalendarGrid,
+  InProgress,
+  ItemFilterBar,
+  PremieresViewToggle,
   StatsBar,
   Timeline,
+  Watchlist,
   WatchlogCard,
 } from '@/features/watchlog'
+import { DataError, SubscribeLink } from '@/shared'
 import { WatchlogSkeleton } from './Skeleton'
 
 export default function WatchlogContent() {
   const { data, isLoading, error } = useWatchlogData()
+  const [filters, setFilters] = useItemFilters()
+  const [premieresView, setPremieresView] = usePremieresView()
 
   if (isLoading) return <WatchlogSkeleton />
 
-  if (error) {
-    return (
-      <div className="text-center py-12">
-        <span className="i-lucide-alert-circle size-12 text-destructive mx-auto mb-4" />
-        <p className="text-muted-foreground">{error}</p>
-      </div>
-    )
-  }
+  if (error) return <DataError error={error} />
+
+  const items = data?.items ?? []
+  const shown = filterItems(items, filters)
 
   return (
     <>
@@ -35,19 +46,70 @@ export default function WatchlogContent() {
 
       {/* Recently Watched */}
       <section className="mb-16">
-        <h2 className="section-heading mb-6">Recently Watched</h2>
-        <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
-          {data?.items.map((item, index) => (
-            <WatchlogCard key={index} item={item} />
-          ))}
+        <div className="flex items-baseline justify-between gap-4 mb-6">
+          <h2 className="section-heading">Recently Watched</h2>
+          <SubscribeLink href={feedUrl('atom')} format="atom" />
         </div>
+        <ItemFilterBar
+          filters={filters}
+          years={itemYears(items)}
+          onChange={setFilters}
+        />
+        {shown.length > 0 || items.length === 0 ? (
+          <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
+            {shown.map((item) => (
+              <WatchlogCard
+                key={`${item.trakt_url}|${item.watched_at}|${item.subtitle ?? ''}`}
+                item={item}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <span className="i-lucide-filter-x size-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground mb-4">
+              Nothing recent matches these filters
+            </p>
+            <button
+              onClick={() => setFilters({ types: [] })}
+              className="px-4 py-2 text-sm font-medium card-interactive"
+            >
+              Clear filters
+            </button>
+          </div>
+        )}
+      </section>
+
+      {/* In Progress: shows with aired episodes left */}
+      <section className="mb-16">
+        <h2 className="section-heading mb-6">In Progress</h2>
+        <InProgress shows={data?.progress ?? []} />
+      </section>
+
+      {/* Up Next: the watchlist, newest addition first */}
+      <section className="mb-16">
+        <h2 className="section-heading mb-6">Up Next</h2>
+        <Watchlist items={data?.watchlist ?? []} />
       </section>
 
       {/* My Premieres Timeline */}
       <section className="mb-16">
         {/* mb-2, not mb-6, because the timeline has py-4 on cards */}
-        <h2 className="section-heading mb-2">My Premieres</h2>
-        <Timeline items={data?.calendar ?? []} />
+        <div className="flex items-baseline justify-between gap-4 mb-2">
+          <h2 className="section-heading">My Premieres</h2>
+          <div className="flex items-center gap-3">
+            <SubscribeLink href={feedUrl('ics')} format="ics" />
+            <PremieresViewToggle
+              view={premieresView}
+              onChange={setPremieresView}
+            />
+          </div>
+        </div>
+        {premieresView === 'grid' ? (
+          <CalendarGrid items={data?.calendar ?? []} />
+        ) : (
+          <Timeline items={data?.calendar ?? []} />
+        )}
       </section>
 
       {/* Stats */}
@@ -55,6 +117,32 @@ export default function WatchlogContent() {
         <h2 className="section-heading mb-6">Statistics</h2>
         <StatsBar stats={data?.stats} />
       </section>
+
+      {/* Activity: plays per day over the last year */}
+      {data?.activity && (
+        <section className="mt-16">
+          <h2 className="section-heading mb-6">Activity</h2>
+          <ActivityHeatmap activity={data.activity} />
+        </section>
+      )}
+
+      {/* Archive: one link per year file */}
+      {data?.archive_years.length ? (
+        <section className="mt-16">
+          <h2 className="section-heading mb-6">Archive</h2>
+          <div className="flex flex-wrap gap-2">
+            {data.archive_years.map((year) => (
+              <Link
+                key={year}
+                to={`/watchlog/${year}`}
+                className="px-4 py-2 text-sm font-medium card-interactive"
+              >
+                {year}
+              </Link>
+            ))}
+          </div>
+        </section>
+      ) : null}
     </>
   )
 }
@@ -0,0 +1,89 @@
+import { format } from 'date-fns'
+import {
+  isShowUrl,
+  useWatchlogData,
+  useWatchlogShows,
+  SeasonCard,
+  Timeline,
+} from '@/features/watchlog'
+import { civilDate, DataError } from '@/shared'
+import { ShowSkeleton } from './Skeleton'
+
+export default function ShowContent({ slug }: { slug: string }) {
+  const { data, isLoading, error } = useWatchlogShows()
+  // Only for what is coming up: the page stands without it
+  const { data: live } = useWatchlogData()
+
+  if (isLoading) return <ShowSkeleton />
+
+  if (error) {
+    return <DataError error={error} notFound="No show pages published yet" />
+  }
+
+  const show = data?.shows.find((entry) => entry.slug === slug)
+  if (!show) {
+    return (
+      <div className="text-center py-12">
+        <span className="i-lucide-search-x size-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground">Nothing watched of this show</p>
+      </div>
+    )
+  }
+
+  const upcoming =
+    live?.calendar.filter((item) => isShowUrl(item.trakt_url, slug)) ?? []
+  const episodes = show.seasons.reduce((sum, s) => sum + s.episodes, 0)
+
+  return (
+    <>
+      {/* Header */}
+      <div className="mb-12 flex items-end gap-6">
+        {show.poster && (
+          <img
+            src={show.poster}
+            alt={show.title}
+            className="w-24 sm:w-32 aspect-[2/3] object-cover rounded-lg card-surface"
+          />
+        )}
+        <div>
+          <h1 className="font-serif text-3xl sm:text-4xl font-semibold text-foreground">
+            {show.title}
+          </h1>
+          <p className="mt-3 text-muted-foreground">
+            {show.year} · {episodes} episodes watched, last on{' '}
+            {format(civilDate(show.last_watched), 'MMM d, yyyy')}
+            {show.rating && <> · ★ {show.rating}</>}
+          </p>
+          <a
+            href={show.trakt_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 mt-2 text-sm text-muted-foreground hover:text-primary transition-colors focusable"
+          >
+            On Trakt
+            <span className="i-lucide-external-link size-3.5" />
+          </a>
+        </div>
+      </div>
+
+      {/* Upcoming: this show's share of My Premieres */}
+      {upcoming.length > 0 && (
+        <section className="mb-16">
+          {/* mb-2, not mb-6, because the timeline has py-4 on cards */}
+          <h2 className="section-heading mb-2">Upcoming</h2>
+          <Timeline items={upcoming} controls={false} />
+        </section>
+      )}
+
+      {/* Seasons, in order, each with what was watched of it */}
+      <section>
+        <h2 className="section-heading mb-6">Seasons</h2>
+        <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
+          {show.seasons.map((season) => (
+            <SeasonCard key={season.season} season={season} />
+          ))}
+        </div>
+      </section>
+    </>
+  )
+}
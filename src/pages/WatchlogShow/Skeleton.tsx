@@ -0,0 +1,31 @@
+import { Skeleton } from '@/shared'
+
+export function ShowSkeleton() {
+  return (
+    <>
+      {/* Header */}
+      <div className="mb-12 flex items-end gap-6">
+        <Skeleton className="w-24 sm:w-32 aspect-[2/3] rounded-lg" />
+        <div className="flex-1">
+          <Skeleton className="h-9 w-2/3 sm:w-1/3 mb-3 rounded-full" />
+          <Skeleton className="h-5 w-1/2 sm:w-1/4 rounded-full" />
+        </div>
+      </div>
+
+      {/* Seasons */}
+      <Skeleton className="h-7 w-32 mb-6 rounded-full" />
+      <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
+        {Array.from({ length: 5 }).map((_, i) => (
+          <div key={i} className="card-surface overflow-hidden">
+            <Skeleton className="aspect-[2/3] rounded-none" />
+            <div className="p-3">
+              <Skeleton className="h-5 w-3/4 mb-2 rounded-full" />
+              <Skeleton className="h-4 w-1/2 mb-2 rounded-full" />
+              <Skeleton className="h-3 w-1/3 rounded-full" />
+            </div>
+          </div>
+        ))}
+      </div>
+    </>
+  )
+}
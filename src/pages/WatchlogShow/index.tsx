@@ -0,0 +1,29 @@
+import { lazy, Suspense } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { Container } from '@/shared'
+import { ShowSkeleton } from './Skeleton'
+
+const ShowContent = lazy(() => import('./ShowContent'))
+
+export default function WatchlogShow() {
+  const { slug = '' } = useParams()
+
+  return (
+    <div className="py-12 sm:py-16">
+      <Container>
+        <Link
+          to="/watchlog"
+          className="inline-flex items-center gap-1 mb-4 text-sm text-muted-foreground hover:text-primary transition-colors focusable"
+        >
+          <span className="i-lucide-arrow-left size-4" />
+          Watchlog
+        </Link>
+
+        {/* The title comes with the data, so the header lives in the content */}
+        <Suspense fallback={<ShowSkeleton />}>
+          <ShowContent key={slug} slug={slug} />
+        </Suspense>
+      </Container>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import { Skeleton } from '@/shared'
+
+export function YearSkeleton() {
+  return (
+    <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
+      {Array.from({ length: 10 }).map((_, i) => (
+        <div key={i} className="card-surface overflow-hidden">
+          <Skeleton className="aspect-[2/3] rounded-none" />
+          <div className="p-3">
+            <Skeleton className="h-5 w-3/4 mb-2 rounded-full" />
+            <Skeleton className="h-4 w-1/2 mb-2 rounded-full" />
+            <Skeleton className="h-3 w-1/3 rounded-full" />
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
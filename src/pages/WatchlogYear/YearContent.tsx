@@ -0,0 +1,37 @@
+import {
+  useWatchlogArchive,
+  RecapSummary,
+  WatchlogCard,
+} from '@/features/watchlog'
+import { DataError } from '@/shared'
+import { YearSkeleton } from './Skeleton'
+
+export default function YearContent({ year }: { year: number }) {
+  const { data, isLoading, error } = useWatchlogArchive(year)
+
+  if (isLoading) return <YearSkeleton />
+
+  // A year without a file is a 404 from the Gist, not an outage
+  if (error) {
+    return <DataError error={error} notFound={`Nothing archived for ${year}`} />
+  }
+
+  return (
+    <>
+      {data?.recap && <RecapSummary recap={data.recap} />}
+
+      {/* Poster wall: every card of the year, newest first */}
+      <section>
+        <h2 className="section-heading mb-6">Everything</h2>
+        <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
+          {data?.items.map((item) => (
+            <WatchlogCard
+              key={`${item.trakt_url}|${item.watched_at}|${item.subtitle ?? ''}`}
+              item={item}
+            />
+          ))}
+        </div>
+      </section>
+    </>
+  )
+}
@@ -0,0 +1,49 @@
+import { lazy, Suspense } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { Container, DataError } from '@/shared'
+import { YearSkeleton } from './Skeleton'
+
+const YearContent = lazy(() => import('./YearContent'))
+
+// Archive files are named by four-digit year; anything else has no file
+const YEAR_PARAM = /^\d{4}$/
+
+export default function WatchlogYear() {
+  const { year = '' } = useParams()
+  const valid = YEAR_PARAM.test(year)
+
+  return (
+    <div className="py-12 sm:py-16">
+      <Container>
+        <div className="mb-12">
+          <Link
+            to="/watchlog"
+            className="inline-flex items-center gap-1 mb-4 text-sm text-muted-foreground hover:text-primary transition-colors focusable"
+          >
+            <span className="i-lucide-arrow-left size-4" />
+            Watchlog
+          </Link>
+          <h1 className="font-serif text-3xl sm:text-4xl font-semibold text-foreground">
+            {valid ? year : 'Not found'}
+          </h1>
+          <p className="mt-3 text-muted-foreground">
+            The year in review, and everything I watched, from the Trakt
+            archive.
+          </p>
+        </div>
+
+        {/* Keyed, so a year change drops the previous year's state */}
+        {valid ? (
+          <Suspense fallback={<YearSkeleton />}>
+            <YearContent key={year} year={Number(year)} />
+          </Suspense>
+        ) : (
+          <DataError
+            error={{ message: 'Not found', status: 404 }}
+            notFound={`No archive year "${year}"`}
+          />
+        )}
+      </Container>
+    </div>
+  )
+}
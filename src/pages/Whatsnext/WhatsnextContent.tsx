@@ -1,6 +1,11 @@
 import { formatDistanceToNowStrict } from 'date-fns'
-import { zonedDate } from '@/shared'
-import { useWhatsnextData, groupEvents, Mosaic } from '@/features/whatsnext'
+import { DataError, SubscribeLink, zonedDate } from '@/shared'
+import {
+  feedUrl,
+  useWhatsnextData,
+  groupEvents,
+  Mosaic,
+} from '@/features/whatsnext'
 import { WhatsnextSkeleton } from './Skeleton'
 
 export default function WhatsnextContent() {
@@ -8,14 +13,7 @@ export default function WhatsnextContent() {
 
   if (isLoading) return <WhatsnextSkeleton />
 
-  if (error) {
-    return (
-      <div className="text-center py-12">
-        <span className="i-lucide-alert-circle size-12 text-destructive mx-auto mb-4" />
-        <p className="text-muted-foreground">{error}</p>
-      </div>
-    )
-  }
+  if (error) return <DataError error={error} />
 
   const today = zonedDate(new Date())
   const { stream, lasting } = groupEvents(data?.events ?? [])
@@ -23,15 +21,21 @@ export default function WhatsnextContent() {
 
   return (
     <>
-      {/* Updated at */}
-      {data?.updated_at && (
-        <p className="-mt-10 mb-12 text-xs text-muted-foreground">
-          Last updated:{' '}
-          {formatDistanceToNowStrict(new Date(data.updated_at), {
-            addSuffix: true,
-          })}
-        </p>
-      )}
+      {/* Updated at, and the listing as feeds */}
+      <div className="-mt-10 mb-12 flex items-baseline justify-between gap-4">
+        {data?.updated_at && (
+          <p className="text-xs text-muted-foreground">
+            Last updated:{' '}
+            {formatDistanceToNowStrict(new Date(data.updated_at), {
+              addSuffix: true,
+            })}
+          </p>
+        )}
+        <div className="flex gap-4">
+          <SubscribeLink href={feedUrl('ics')} format="ics" />
+          <SubscribeLink href={feedUrl('atom')} format="atom" />
+        </div>
+      </div>
 
       {/* Empty state */}
       {isEmpty && (
@@ -0,0 +1,40 @@
+import type { GistDataError } from '../hooks/useGistData'
+
+interface DataErrorProps {
+  error: GistDataError
+  /** Shown instead of the status line when the file does not exist */
+  notFound?: string
+}
+
+export function DataError({ error, notFound }: DataErrorProps) {
+  if (error.formatChanged) {
+    return (
+      <div className="text-center py-12">
+        <span className="i-lucide-alert-circle size-12 text-destructive mx-auto mb-4" />
+        <p className="text-foreground font-medium mb-2">Data format changed</p>
+        <p className="text-muted-foreground mb-6">
+          This page is older or newer than its data. Reloading usually picks up
+          the matching version.
+        </p>
+        <button
+          onClick={() => window.location.reload()}
+          className="px-4 py-2 bg-primary text-primary-foreground rounded-md font-medium hover:bg-primary/90 transition-colors focusable"
+        >
+          Reload
+        </button>
+        <p className="mt-6 text-xs text-muted-foreground font-mono">
+          {error.message}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="text-center py-12">
+      <span className="i-lucide-alert-circle size-12 text-destructive mx-auto mb-4" />
+      <p className="text-muted-foreground">
+        {notFound && error.status === 404 ? notFound : error.message}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import type { FeedFormat } from '../lib/feeds'
+
+const LINKS: Record<
+  FeedFormat,
+  { icon: string; label: string; title: string }
+> = {
+  ics: {
+    icon: 'i-lucide-calendar-plus',
+    label: 'Subscribe',
+    title: 'Subscribe in a calendar app',
+  },
+  atom: {
+    icon: 'i-lucide-rss',
+    label: 'Feed',
+    title: 'Follow in a feed reader',
+  },
+}
+
+/** Hands a published feed to the visitor's calendar app or feed reader */
+export function SubscribeLink({
+  href,
+  format,
+}: {
+  href: string
+  format: FeedFormat
+}) {
+  const { icon, label, title } = LINKS[format]
+  const absolute = new URL(href, window.location.origin).href
+  // webcal: makes the OS open a calendar app instead of downloading the
+  // file. The URL setter refuses that scheme swap, hence the string edit
+  const target =
+    format === 'ics' ? absolute.replace(/^https?:/, 'webcal:') : absolute
+
+  return (
+    <a
+      href={target}
+      className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-primary transition-colors focusable"
+      title={title}
+    >
+      <span className={`${icon} size-4`} />
+      {label}
+    </a>
+  )
+}
@@ -1,17 +1,28 @@
 import { useState, useEffect } from 'react'
+import { dataUrl } from '../lib/data-source'
+import { SchemaError } from '../lib/schema'
 
-const { GIST_ID } = import.meta.env
+export interface GistDataError {
+  message: string
+  /** HTTP status, when the fetch itself failed */
+  status?: number
+  /** The payload arrived but failed its schema: a stale build or bad write */
+  formatChanged?: boolean
+}
 
 interface UseGistDataResult<T> {
   data?: T
   isLoading: boolean
-  error?: string
+  error?: GistDataError
 }
 
-export function useGistData<T>(filename: string): UseGistDataResult<T> {
+export function useGistData<T>(
+  filename: string,
+  parse: (raw: unknown) => T,
+): UseGistDataResult<T> {
   const [data, setData] = useState<T>()
   const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string>()
+  const [error, setError] = useState<GistDataError>()
 
   useEffect(() => {
     const controller = new AbortController()
@@ -23,20 +34,30 @@ export function useGistData<T>(filename: string): UseGistDataResult<T> {
       setData(undefined)
 
       try {
-        const response = await fetch(
-          `https://gist.githubusercontent.com/raw/${GIST_ID}/${filename}`,
-          { cache: 'no-cache', signal: controller.signal },
-        )
+        const response = await fetch(dataUrl(filename), {
+          cache: 'no-cache',
+          signal: controller.signal,
+        })
 
         if (!response.ok) {
-          setError(`Failed to fetch: ${response.status}`)
+          setError({
+            message: `Failed to fetch: ${response.status}`,
+            status: response.status,
+          })
           return
         }
 
-        setData(await response.json())
+        setData(parse(await response.json()))
       } catch (err) {
         if (err instanceof Error && err.name === 'AbortError') return
-        setError(err instanceof Error ? err.message : 'Failed to load data')
+        if (err instanceof SchemaError) {
+          console.error(`${filename} failed validation:`, err.message)
+          setError({ message: err.message, formatChanged: true })
+          return
+        }
+        setError({
+          message: err instanceof Error ? err.message : 'Failed to load data',
+        })
       } finally {
         if (!controller.signal.aborted) {
           setIsLoading(false)
@@ -46,7 +67,8 @@ export function useGistData<T>(filename: string): UseGistDataResult<T> {
 
     void fetchData()
     return () => controller.abort()
-  }, [filename])
+    // Callers pass a module-level parser, so it never re-runs the fetch
+  }, [filename, parse])
 
   return { data, isLoading, error }
 }
@@ -8,10 +8,13 @@ export { Skeleton } from './components/ui/skeleton'
 
 // Shared components
 export { ErrorBoundary } from './components/ErrorBoundary'
+export { DataError } from './components/DataError'
+export { SubscribeLink } from './components/SubscribeLink'
 
 // Hooks
-export { useGistData } from './hooks/useGistData'
+export { useGistData, type GistDataError } from './hooks/useGistData'
 
 // Lib
 export { cn } from './lib/utils'
 export { civilDate, zonedDate, shiftDate } from './lib/zoned-date'
+export { dataUrl } from './lib/data-source'
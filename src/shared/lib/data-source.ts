@@ -0,0 +1,20 @@
+/**
+ * Where the frontend reads the sync output from. STORAGE_BACKEND is the same
+ * variable the sync scripts read (see scripts/lib/storage.ts), so one setting
+ * decides both ends.
+ */
+
+const { STORAGE_BACKEND, GIST_ID } = import.meta.env
+
+/** URL of a stored file, e.g. `watchlog.json` */
+export function dataUrl(filename: string): string {
+  switch (STORAGE_BACKEND) {
+    // The dev server serves the local directory at /data, and the repo
+    // backend commits into public/data, which the build serves there too
+    case 'local':
+    case 'repo':
+      return `/data/${filename}`
+    default:
+      return `https://gist.githubusercontent.com/raw/${GIST_ID}/${filename}`
+  }
+}
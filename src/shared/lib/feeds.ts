@@ -0,0 +1,16 @@
+/**
+ * Subscribable feeds are published next to the data file they are made
+ * from: `watchlog.json` gets `watchlog.ics` and `watchlog.atom`. The scripts
+ * write them under these names and the pages link them, so both ends derive
+ * them here.
+ */
+
+/** iCalendar for calendar apps, Atom for feed readers */
+export type FeedFormat = 'ics' | 'atom'
+
+/** `watchlog.json`, 'ics' -> `watchlog.ics` */
+export function feedFilename(filename: string, format: FeedFormat): string {
+  const dot = filename.lastIndexOf('.')
+  const stem = dot === -1 ? filename : filename.slice(0, dot)
+  return `${stem}.${format}`
+}
@@ -0,0 +1,143 @@
+/**
+ * Just enough runtime validation for the JSON payloads the sync scripts
+ * publish. A parser either returns a value of its type or throws a
+ * SchemaError naming the offending path, so a malformed payload fails once
+ * at the fetch instead of deep inside a component.
+ */
+
+export type Parser<T> = (value: unknown, path: string) => T
+
+export class SchemaError extends Error {
+  readonly path: string
+
+  constructor(path: string, expected: string) {
+    super(`${path || 'payload'}: expected ${expected}`)
+    this.name = 'SchemaError'
+    this.path = path
+  }
+}
+
+export const string: Parser<string> = (value, path) => {
+  if (typeof value !== 'string') throw new SchemaError(path, 'a string')
+  return value
+}
+
+export const number: Parser<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SchemaError(path, 'a number')
+  }
+  return value
+}
+
+export const boolean: Parser<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new SchemaError(path, 'a boolean')
+  return value
+}
+
+export const oneOf =
+  <T extends string>(...options: T[]): Parser<T> =>
+  (value, path) => {
+    if (!options.includes(value as T)) {
+      throw new SchemaError(path, `one of ${options.join(', ')}`)
+    }
+    return value as T
+  }
+
+export const array =
+  <T>(item: Parser<T>): Parser<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, 'an array')
+    return value.map((entry, index) => item(entry, `${path}[${index}]`))
+  }
+
+const child = (path: string, key: string) => (path ? `${path}.${key}` : key)
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export const record =
+  <T>(entry: Parser<T>): Parser<Record<string, T>> =>
+  (value, path) => {
+    if (!isObject(value)) throw new SchemaError(path, 'an object')
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [
+        key,
+        entry(v, child(path, key)),
+      ]),
+    )
+  }
+
+/** Absent or null reads as undefined; anything else must still parse */
+export const optional =
+  <T>(parser: Parser<T>): Parser<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : parser(value, path)
+
+/** Absent or null reads as the fallback; anything else must still parse */
+export const withDefault =
+  <T>(parser: Parser<T>, fallback: T): Parser<T> =>
+  (value, path) =>
+    optional(parser)(value, path) ?? fallback
+
+/** Any value that fails to parse, absent included, reads as the fallback */
+export const orElse =
+  <T, F>(parser: Parser<T>, fallback: F): Parser<T | F> =>
+  (value, path) => {
+    try {
+      return parser(value, path)
+    } catch (error) {
+      if (error instanceof SchemaError) return fallback
+      throw error
+    }
+  }
+
+/**
+ * Every key of T needs a parser. Keys outside the shape are dropped and
+ * undefined ones left out, so `'rating' in item` means what it meant before.
+ */
+export const object =
+  <T>(shape: { [K in keyof T]-?: Parser<T[K]> }): Parser<T> =>
+  (value, path) => {
+    if (!isObject(value)) throw new SchemaError(path, 'an object')
+    const parsed: Record<string, unknown> = {}
+    for (const [key, parser] of Object.entries(shape) as [
+      string,
+      Parser<unknown>,
+    ][]) {
+      const field = parser(value[key], child(path, key))
+      if (field !== undefined) parsed[key] = field
+    }
+    return parsed as T
+  }
+
+/**
+ * The envelope every payload shares. A file from before versioning reads as
+ * version 1; one from a newer script than this build is refused outright,
+ * since its fields may mean something this code no longer knows.
+ */
+export const versioned =
+  <T extends { schema_version: number }>(
+    supported: number,
+    body: Parser<Omit<T, 'schema_version'>>,
+  ): Parser<T> =>
+  (value, path) => {
+    const version = isObject(value)
+      ? (optional(number)(
+          value.schema_version,
+          child(path, 'schema_version'),
+        ) ?? 1)
+      : 1
+    if (version > supported) {
+      throw new SchemaError(
+        child(path, 'schema_version'),
+        `at most ${supported}`,
+      )
+    }
+    return { ...body(value, path), schema_version: version } as T
+  }
+
+/** The entry point: JSON in, typed payload out, or a SchemaError */
+export const parseWith =
+  <T>(parser: Parser<T>) =>
+  (raw: unknown): T =>
+    parser(raw, '')
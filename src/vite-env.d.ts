@@ -2,6 +2,9 @@
 
 // Exposed via envPrefix in vite.config.ts, which also asserts they are set
 interface ImportMetaEnv {
+  /** Unset means gist, see @/shared/lib/data-source */
+  readonly STORAGE_BACKEND?: 'gist' | 'local' | 'repo'
+  /** Only set, and only asserted, for the gist backend */
   readonly GIST_ID: string
   readonly GIST_FILENAME_WATCHLOG: string
   readonly GIST_FILENAME_WHATSNEXT: string
@@ -73,5 +73,6 @@ export default defineConfig({
     // Controls
     'icon-button':
       'p-2 rounded-xl text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors focusable',
+    chip: 'px-3 py-1 rounded-full border border-border text-sm transition-colors focusable',
   },
 })
@@ -1,4 +1,4 @@
-import { copyFileSync } from 'node:fs'
+import { copyFileSync, createReadStream, existsSync } from 'node:fs'
 import path from 'node:path'
 import { defineConfig, loadEnv, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
@@ -6,12 +6,9 @@ import UnoCSS from 'unocss/vite'
 import { VitePWA } from 'vite-plugin-pwa'
 import { manifest } from './pwa-manifest.ts'
 
-// Exposed to client code via envPrefix and read by the watchlog hook
-const REQUIRED_ENV = [
-  'GIST_ID',
-  'GIST_FILENAME_WATCHLOG',
-  'GIST_FILENAME_WHATSNEXT',
-]
+// Exposed to client code via envPrefix and read by the data hooks
+const REQUIRED_ENV = ['GIST_FILENAME_WATCHLOG', 'GIST_FILENAME_WHATSNEXT']
+const STORAGE_BACKENDS = ['gist', 'local', 'repo']
 
 // Copy index.html to 404.html for SPA routing on GitHub Pages
 function spa404Plugin(): Plugin {
@@ -32,10 +29,45 @@ function spa404Plugin(): Plugin {
   }
 }
 
+// The feeds published next to the JSON; anything else is JSON
+const CONTENT_TYPES: Record<string, string> = {
+  '.ics': 'text/calendar; charset=utf-8',
+  '.atom': 'application/atom+xml; charset=utf-8',
+}
+
+// Serve the local storage directory at /data, where data-source.ts looks
+function localDataPlugin(dir: string): Plugin {
+  const root = path.resolve(dir)
+
+  return {
+    name: 'local-data',
+    configureServer(server) {
+      server.middlewares.use('/data', (req, res, next) => {
+        const file = path.join(root, path.basename(req.url ?? ''))
+        if (!existsSync(file)) return next()
+        res.setHeader(
+          'Content-Type',
+          CONTENT_TYPES[path.extname(file)] ?? 'application/json',
+        )
+        createReadStream(file).pipe(res)
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig(({ mode }) => {
-  const env = loadEnv(mode, process.cwd(), 'GIST_')
-  const missing = REQUIRED_ENV.filter((key) => !env[key])
+  const env = loadEnv(mode, process.cwd(), ['GIST_', 'STORAGE_'])
+  const backend = env.STORAGE_BACKEND || 'gist'
+  if (!STORAGE_BACKENDS.includes(backend)) {
+    throw new Error(
+      `Unknown STORAGE_BACKEND: ${backend} (${STORAGE_BACKENDS.join(', ')})`,
+    )
+  }
+
+  const required =
+    backend === 'gist' ? ['GIST_ID', ...REQUIRED_ENV] : REQUIRED_ENV
+  const missing = required.filter((key) => !env[key])
   if (missing.length > 0) {
     throw new Error(
       `Missing required env: ${missing.join(', ')} (see .env.example)`,
@@ -44,7 +76,7 @@ export default defineConfig(({ mode }) => {
 
   return {
     base: '/',
-    envPrefix: ['VITE_', 'GIST_'],
+    envPrefix: ['VITE_', 'GIST_', 'STORAGE_'],
     plugins: [
       UnoCSS(),
       react(),
@@ -72,7 +104,22 @@ export default defineConfig(({ mode }) => {
                 cacheName: 'gist-cache',
                 networkTimeoutSeconds: 5,
                 expiration: {
-                  maxEntries: 10,
+                  // The live files plus a handful of archive years
+                  maxEntries: 30,
+                  maxAgeSeconds: 60 * 60 * 24 * 7, // 7 days
+                },
+              },
+            },
+            {
+              // Same data from the local and repo storage backends
+              urlPattern: ({ sameOrigin, url }) =>
+                sameOrigin && url.pathname.startsWith('/data/'),
+              handler: 'NetworkFirst',
+              options: {
+                cacheName: 'data-cache',
+                networkTimeoutSeconds: 5,
+                expiration: {
+                  maxEntries: 30,
                   maxAgeSeconds: 60 * 60 * 24 * 7, // 7 days
                 },
               },
@@ -108,6 +155,7 @@ export default defineConfig(({ mode }) => {
         manifest: manifest,
       }),
       spa404Plugin(),
+      backend === 'local' && localDataPlugin(env.STORAGE_DIR || 'data'),
     ],
     resolve: {
       alias: {